@@ -18,7 +18,8 @@ export default [
         process: 'readonly',
         Buffer: 'readonly',
         __dirname: 'readonly',
-        require: 'readonly'
+        require: 'readonly',
+        structuredClone: 'readonly'
       }
     },
     plugins: {
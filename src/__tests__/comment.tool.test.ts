@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CommentTool } from '../tools/comment/comment.tool.js';
+import { TPService } from '../api/client/tp.service.js';
+
+let service: {
+  getEntity: jest.Mock<(type: string, id: number, include?: string[]) => Promise<unknown>>;
+  createComment: jest.Mock<(data: unknown) => Promise<unknown>>;
+  findUser: jest.Mock<(token: string) => Promise<unknown>>;
+  normalize: (value: unknown) => unknown;
+};
+let tool: CommentTool;
+
+beforeEach(() => {
+  service = {
+    getEntity: jest.fn(async (_type: string, id: number) => ({ Id: id, General: { Id: id === 500 ? 42 : 43 } })),
+    createComment: jest.fn(async () => ({ Id: 900 })),
+    findUser: jest.fn(async () => null),
+    normalize: (value) => value,
+  };
+  tool = new CommentTool(service as unknown as TPService);
+});
+
+describe('CommentTool replies', () => {
+  it('threads a reply under a comment on the same entity', async () => {
+    await tool.executeCreate({ entityId: 42, description: 'Agreed', replyTo: 500 });
+
+    expect(service.getEntity).toHaveBeenCalledWith('Comment', 500, ['General']);
+    expect(service.createComment).toHaveBeenCalledWith(expect.objectContaining({ General: { Id: 42 }, ParentId: 500 }));
+  });
+
+  it('rejects a reply to a comment on another entity', async () => {
+    const error = await tool.executeCreate({ entityId: 42, description: 'Agreed', replyTo: 501 }).then(() => undefined, (caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect((error as McpError).message).toContain('Comment 501 belongs to entity 43, not 42');
+    expect(service.createComment).not.toHaveBeenCalled();
+  });
+
+  it('skips the lookup for top-level comments', async () => {
+    await tool.executeCreate({ entityId: 42, description: 'First!' });
+
+    expect(service.getEntity).not.toHaveBeenCalled();
+    expect(service.createComment).toHaveBeenCalledWith(expect.not.objectContaining({ ParentId: expect.anything() }));
+  });
+});
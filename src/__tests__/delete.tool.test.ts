@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { DeleteEntityTool } from '../tools/entity/delete.tool.js';
+import { DeletionImpact } from '../api/client/tp.deletion.js';
+import { TPService } from '../api/client/tp.service.js';
+
+function impactOf(tasks: number): DeletionImpact {
+  return {
+    entity: { Id: 7, ResourceType: 'UserStory', Name: 'Login page' },
+    dependents: { Tasks: { count: tasks, more: false }, Comments: { count: 1, more: false } },
+  };
+}
+
+let service: {
+  getDeletionConfig: jest.Mock<() => { mode: 'delete' | 'archive'; archiveState: string }>;
+  getDeletionImpact: jest.Mock<(type: string, id: number) => Promise<DeletionImpact>>;
+  getEntityStates: jest.Mock<(type: string, id: number) => Promise<unknown>>;
+  deleteEntity: jest.Mock<(type: string, id: number) => Promise<unknown>>;
+  updateEntity: jest.Mock<(type: string, id: number, data: unknown) => Promise<unknown>>;
+};
+let tool: DeleteEntityTool;
+
+beforeEach(() => {
+  service = {
+    getDeletionConfig: jest.fn(() => ({ mode: 'delete' as const, archiveState: 'Removed' })),
+    getDeletionImpact: jest.fn(async () => impactOf(2)),
+    getEntityStates: jest.fn(async () => ({ current: { Id: 1, Name: 'Open' }, states: [{ Id: 1, Name: 'Open' }, { Id: 9, Name: 'Removed' }] })),
+    deleteEntity: jest.fn(async () => ({})),
+    updateEntity: jest.fn(async () => ({})),
+  };
+  tool = new DeleteEntityTool(service as unknown as TPService);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function run(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const result = await tool.execute(args);
+  return JSON.parse(result.content[0].text);
+}
+
+async function dryRun(args: Record<string, unknown> = {}): Promise<string> {
+  const report = await run({ type: 'UserStory', id: 7, ...args });
+  expect(report.dryRun).toBe(true);
+  return report.confirm as string;
+}
+
+async function rejection(args: Record<string, unknown>): Promise<string> {
+  const error = await tool.execute(args).then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(McpError);
+  expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  return (error as McpError).message;
+}
+
+describe('DeleteEntityTool', () => {
+  describe('confirm tokens', () => {
+    it('changes nothing without a token and deletes with it', async () => {
+      const confirm = await dryRun();
+      expect(service.deleteEntity).not.toHaveBeenCalled();
+
+      expect(await run({ type: 'UserStory', id: 7, confirm })).toMatchObject({ success: true, action: 'delete' });
+      expect(service.deleteEntity).toHaveBeenCalledWith('UserStory', 7);
+    });
+
+    it('accepts each token only once', async () => {
+      const confirm = await dryRun();
+      await run({ type: 'UserStory', id: 7, confirm });
+
+      expect(await rejection({ type: 'UserStory', id: 7, confirm })).toContain('already been used');
+      expect(service.deleteEntity).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a token issued for another entity or action', async () => {
+      const confirm = await dryRun();
+
+      expect(await rejection({ type: 'UserStory', id: 8, confirm })).toContain('was issued to delete UserStory 7, not to delete UserStory 8');
+      expect(await rejection({ type: 'Bug', id: 7, confirm })).toContain('not to delete Bug 7');
+      expect(await rejection({ type: 'UserStory', id: 7, confirm, archive: true })).toContain('not to archive UserStory 7');
+      expect(service.deleteEntity).not.toHaveBeenCalled();
+    });
+
+    it('rejects forged and foreign tokens', async () => {
+      const confirm = await dryRun();
+      const [body, signature] = confirm.split('.');
+      const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString('utf8')), id: 8 })).toString('base64url');
+      const foreign = await new DeleteEntityTool(service as unknown as TPService).execute({ type: 'UserStory', id: 7 })
+        .then(result => JSON.parse(result.content[0].text).confirm as string);
+
+      expect(await rejection({ type: 'UserStory', id: 8, confirm: `${forged}.${signature}` })).toContain('Invalid confirm token');
+      expect(await rejection({ type: 'UserStory', id: 7, confirm: foreign })).toContain('Invalid confirm token');
+      expect(await rejection({ type: 'UserStory', id: 7, confirm: 'garbage' })).toContain('Invalid confirm token');
+    });
+
+    it('rejects an expired token', async () => {
+      const confirm = await dryRun();
+      const later = Date.now() + 11 * 60 * 1000;
+      jest.spyOn(Date, 'now').mockImplementation(() => later);
+
+      expect(await rejection({ type: 'UserStory', id: 7, confirm })).toContain('Confirm token has expired');
+      expect(service.deleteEntity).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token when the dependents changed since the dry run', async () => {
+      const confirm = await dryRun();
+      service.getDeletionImpact.mockResolvedValue(impactOf(3));
+
+      expect(await rejection({ type: 'UserStory', id: 7, confirm })).toContain('has changed since the dry run');
+      expect(service.deleteEntity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archiving', () => {
+    it('moves the entity to the archive state', async () => {
+      const report = await run({ type: 'UserStory', id: 7, archive: true });
+      expect(report).toMatchObject({ dryRun: true, action: 'archive', archiveState: 'Removed' });
+
+      await run({ type: 'UserStory', id: 7, archive: true, confirm: report.confirm });
+      expect(service.updateEntity).toHaveBeenCalledWith('UserStory', 7, { EntityState: { Id: 9 } });
+      expect(service.deleteEntity).not.toHaveBeenCalled();
+    });
+
+    it('rejects types without a workflow before asking the API', async () => {
+      for (const type of ['Team', 'Release', 'Iteration']) {
+        expect(await rejection({ type, id: 7, archive: true })).toContain(`${type} has no workflow state, so it cannot be archived`);
+      }
+      expect(service.getEntityStates).not.toHaveBeenCalled();
+      expect(service.getDeletionImpact).not.toHaveBeenCalled();
+    });
+
+    it('rejects a workflow without the archive state', async () => {
+      service.getDeletionConfig.mockReturnValue({ mode: 'archive', archiveState: 'Archived' });
+
+      expect(await rejection({ type: 'UserStory', id: 7 })).toContain("has no 'Archived' state to archive to. Available states: Open, Removed");
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { decodeEntities, htmlToMarkdown, looksLikeHtml } from '../output/html.markdown.js';
+
+describe('htmlToMarkdown', () => {
+  it('converts nested and ordered lists', () => {
+    expect(htmlToMarkdown('<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol><li>First</li><li>Second</li></ol>'))
+      .toBe('- One\n- Two\n  - Nested\n\n1. First\n2. Second');
+  });
+
+  it('converts tables with a header separator and escaped pipes', () => {
+    expect(htmlToMarkdown('<table><tr><th>Name</th><th>State</th></tr><tr><td>Login | SSO</td><td><b>Open</b></td></tr></table>'))
+      .toBe('| Name | State |\n| --- | --- |\n| Login \\| SSO | **Open** |');
+  });
+
+  it('keeps code blocks verbatim and converts inline code', () => {
+    expect(htmlToMarkdown('<p>Run:</p><pre><code>if (a &lt; b) {\n  go();\n}</code></pre><p>Inline <code>x = 1</code></p>'))
+      .toBe('Run:\n\n```\nif (a < b) {\n  go();\n}\n```\n\nInline `x = 1`');
+  });
+
+  it('keeps NUL characters inside code blocks', () => {
+    expect(htmlToMarkdown('<pre>a\u0000b</pre>')).toBe('```\na\u0000b\n```');
+  });
+
+  it('converts quotes', () => {
+    expect(htmlToMarkdown('<blockquote><p>Quoted <em>text</em></p></blockquote><p>After</p>')).toBe('> Quoted _text_\n\nAfter');
+  });
+
+  it('converts links and decodes entities in their targets', () => {
+    expect(htmlToMarkdown('<p><a href="https://x.io/a?b=1&amp;c=2">link</a> and <strong>bold</strong></p>'))
+      .toBe('[link](https://x.io/a?b=1&c=2) and **bold**');
+  });
+
+  it('drops scripts and comments', () => {
+    expect(htmlToMarkdown('<p>Text<!-- note --></p><script>alert(1)</script>')).toBe('Text');
+  });
+});
+
+describe('HTML helpers', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeEntities('&lt;a&gt; &amp; &#39;b&#x27; &unknown;')).toBe("<a> & 'b' &unknown;");
+  });
+
+  it('tells markup from plain text', () => {
+    expect(looksLikeHtml('<p>Hi</p>')).toBe(true);
+    expect(looksLikeHtml('a < b and c > d')).toBe(false);
+  });
+});
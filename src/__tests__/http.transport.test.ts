@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach, beforeEach, jest } from '@jest/globals';
+import http from 'node:http';
+import { setImmediate, setTimeout } from 'node:timers/promises';
+import { URL } from 'node:url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportServer, TransportConfig } from '../transport/http.transport.js';
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const TOKEN = 'test-token';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+let transport: HttpTransportServer | null = null;
+let servers: Server[] = [];
+
+async function start(config: Partial<TransportConfig> = {}, diagnostics?: () => unknown): Promise<HttpTransportServer> {
+  transport = new HttpTransportServer(
+    () => {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      servers.push(server);
+      return server;
+    },
+    { type: 'http', host: '127.0.0.1', port: 0, authToken: TOKEN, ...config },
+    diagnostics
+  );
+  await transport.start();
+  return transport;
+}
+
+function send(method: string, path: string, options: { headers?: Record<string, string>; body?: string } = {}): Promise<Reply> {
+  const url = new URL(path, transport!.address);
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...options.headers,
+      },
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString('utf8') }));
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+const authorized = { Authorization: `Bearer ${TOKEN}` };
+
+async function initialize(): Promise<string> {
+  const reply = await send('POST', '/mcp', { headers: authorized, body: JSON.stringify(INITIALIZE) });
+  expect(reply.status).toBe(200);
+  return reply.headers['mcp-session-id'] as string;
+}
+
+function sessionCount(server: HttpTransportServer): number {
+  return (server as unknown as { sessions: Map<string, unknown> }).sessions.size;
+}
+
+beforeEach(() => {
+  servers = [];
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  await transport?.close();
+  transport = null;
+  jest.restoreAllMocks();
+});
+
+describe('HttpTransportServer', () => {
+  describe('authorization', () => {
+    it('rejects requests without the bearer token', async () => {
+      await start();
+      const missing = await send('POST', '/mcp', { body: JSON.stringify(INITIALIZE) });
+      const wrong = await send('POST', '/mcp', { headers: { Authorization: 'Bearer nope' }, body: JSON.stringify(INITIALIZE) });
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+    });
+
+    it('answers /health without details unless authorized', async () => {
+      await start({}, () => ({ rateLimit: 'state' }));
+      const open = JSON.parse((await send('GET', '/health')).body);
+      const detailed = JSON.parse((await send('GET', '/health', { headers: authorized })).body);
+
+      expect(Object.keys(open).sort()).toEqual(['status', 'uptimeSeconds']);
+      expect(detailed.diagnostics).toEqual({ rateLimit: 'state' });
+      expect(detailed.sessions).toEqual({ streamable: 0, sse: 0 });
+    });
+  });
+
+  describe('request bodies', () => {
+    it('answers bodies over the limit with 413', async () => {
+      await start({ maxBodyBytes: 100 });
+      const reply = await send('POST', '/mcp', { headers: authorized, body: JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(200) }) });
+
+      expect(reply.status).toBe(413);
+      expect(JSON.parse(reply.body).error.code).toBe(-32600);
+    });
+
+    it('answers malformed JSON with a parse error', async () => {
+      await start();
+      const reply = await send('POST', '/mcp', { headers: authorized, body: '{' });
+
+      expect(reply.status).toBe(400);
+      expect(JSON.parse(reply.body).error.code).toBe(-32700);
+    });
+  });
+
+  describe('session routing', () => {
+    it('opens a session on initialize and routes later requests by its id', async () => {
+      const server = await start();
+      const sessionId = await initialize();
+      const ping = await send('POST', '/mcp', {
+        headers: { ...authorized, 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+      });
+
+      expect(sessionCount(server)).toBe(1);
+      expect(ping.status).toBe(200);
+      expect(ping.body).toContain('"id":2');
+    });
+
+    it('rejects unknown sessions and requests without one', async () => {
+      await start();
+      const unknown = await send('POST', '/mcp', {
+        headers: { ...authorized, 'mcp-session-id': 'missing' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+      });
+      const noSession = await send('POST', '/mcp', { headers: authorized, body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }) });
+
+      expect(unknown.status).toBe(404);
+      expect(noSession.status).toBe(400);
+    });
+
+    it('closes idle sessions but keeps sessions with an open request', async () => {
+      const server = await start({ sessionIdleSeconds: 0 });
+      const idle = await initialize();
+      const busy = await initialize();
+      const sessions = (server as unknown as { sessions: Map<string, { openRequests: number }> }).sessions;
+      sessions.get(busy)!.openRequests = 1;
+
+      await setImmediate();
+      (server as unknown as { closeIdleSessions(): void }).closeIdleSessions();
+
+      expect(sessions.has(idle)).toBe(false);
+      expect(sessions.has(busy)).toBe(true);
+      sessions.get(busy)!.openRequests = 0;
+    });
+
+    it('closes the server of an SSE session when its stream ends', async () => {
+      const server = await start();
+      const stream = await new Promise<http.ClientRequest>((resolve, reject) => {
+        const req = http.get(new URL('/sse', transport!.address), { headers: authorized }, (res) => {
+          res.once('data', () => resolve(req));
+        });
+        req.on('error', reject);
+      });
+      expect(sessionCount(server)).toBe(1);
+      const close = jest.spyOn(servers[0], 'close');
+
+      stream.destroy();
+      await setTimeout(50);
+
+      expect(sessionCount(server)).toBe(0);
+      expect(close).toHaveBeenCalled();
+    });
+  });
+});
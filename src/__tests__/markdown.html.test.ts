@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { findMentions, markdownToHtml } from '../output/markdown.html.js';
+import { htmlToMarkdown } from '../output/html.markdown.js';
+
+describe('markdownToHtml', () => {
+  it('renders nested and ordered lists', () => {
+    expect(markdownToHtml('- One\n- Two\n  - Nested\n\n3. Third\n4. Fourth'))
+      .toBe('<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol start="3"><li>Third</li><li>Fourth</li></ol>');
+  });
+
+  it('renders tables with a header row', () => {
+    expect(markdownToHtml('| Name | State |\n| --- | --- |\n| Login \\| SSO | **Open** |'))
+      .toBe('<table><thead><tr><th>Name</th><th>State</th></tr></thead><tbody><tr><td>Login | SSO</td><td><strong>Open</strong></td></tr></tbody></table>');
+  });
+
+  it('escapes code and leaves its content alone', () => {
+    expect(markdownToHtml('```ts\nconst a = b < c && *d*;\n```\n\nInline `<b>*x*</b>`'))
+      .toBe('<pre><code class="language-ts">const a = b &lt; c &amp;&amp; *d*;</code></pre><p>Inline <code>&lt;b&gt;*x*&lt;/b&gt;</code></p>');
+  });
+
+  it('renders quotes', () => {
+    expect(markdownToHtml('> Quoted _text_\n\nAfter')).toBe('<blockquote><p>Quoted <em>text</em></p></blockquote><p>After</p>');
+  });
+
+  it('keeps NUL characters in the text', () => {
+    expect(markdownToHtml('a \u0000 b and `code`')).toBe('<p>a \u0000 b and <code>code</code></p>');
+  });
+
+  describe('link targets', () => {
+    it('allows http, https, mailto and relative links', () => {
+      expect(markdownToHtml('[a](http://x.io) [b](https://x.io/a?b=1&c=2) [c](mailto:a@b.c) [d](/entity/5) [e](#top)'))
+        .toBe('<p><a href="http://x.io">a</a> <a href="https://x.io/a?b=1&amp;c=2">b</a> <a href="mailto:a@b.c">c</a> <a href="/entity/5">d</a> <a href="#top">e</a></p>');
+    });
+
+    it('keeps only the text of links with other schemes', () => {
+      expect(markdownToHtml('[click](javascript:alert) [me](JavaScript:void) [**data**](data:text/html;base64,PHNjcmlwdD4=)'))
+        .toBe('<p>click me <strong>data</strong></p>');
+    });
+
+    it('keeps only the alt text of images with other schemes', () => {
+      expect(markdownToHtml('![logo](https://x.io/logo.png "Logo") ![pixel](data:image/png;base64,AAAA)'))
+        .toBe('<p><img src="https://x.io/logo.png" alt="logo" title="Logo" /> pixel</p>');
+    });
+  });
+
+  it('renders mentions through the callback and skips code', () => {
+    const html = markdownToHtml('Ping @jdoe and @nobody, not `@code`', token => token === 'jdoe' ? '<span>John</span>' : undefined);
+    expect(html).toBe('<p>Ping <span>John</span> and @nobody, not <code>@code</code></p>');
+    expect(findMentions('Ping @jdoe and @a.b@x.io\n```\n@skipped\n```')).toEqual(['jdoe', 'a.b@x.io']);
+  });
+});
+
+describe('HTML and Markdown round trips', () => {
+  const documents: Record<string, string> = {
+    lists: '- One\n- Two\n  - Nested\n\n1. First\n2. Second',
+    tables: '| Name | State |\n| --- | --- |\n| Login \\| SSO | **Open** |',
+    code: 'Run:\n\n```\nif (a < b) {\n  go();\n}\n```\n\nInline `x = 1`',
+    quotes: '> Quoted _text_\n\nAfter',
+    links: '[link](https://x.io/a?b=1&c=2) and **bold**',
+  };
+
+  for (const [name, markdown] of Object.entries(documents)) {
+    it(`keeps ${name} through Markdown to HTML and back`, () => {
+      expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+    });
+  }
+
+  it('keeps HTML from the editor through Markdown and back', () => {
+    const html = '<ul><li>One<ul><li>Nested</li></ul></li></ul><blockquote><p>Quoted</p></blockquote><pre><code>a &lt; b</code></pre>';
+    expect(markdownToHtml(htmlToMarkdown(html))).toBe(html);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PromptProvider } from '../prompt/prompt.provider.js';
+import { TPInstanceManager } from '../api/client/tp.instances.js';
+
+interface SearchCall {
+  type: string;
+  where: string;
+  include: string[];
+  orderBy: unknown[];
+}
+
+// Items as the v1 API returns them for the requested include
+const STORIES: Record<'final' | 'open', object[]> = {
+  final: [{ Id: 1, Name: 'Login page', EntityState: { Id: 10, Name: 'Done' }, Effort: 5, ModifyDate: '2024-05-01T10:00:00Z', AssignedUser: { Items: [{ FirstName: 'Ann', LastName: 'Lee' }] } }],
+  open: [{ Id: 2, Name: 'Password reset', EntityState: { Id: 11, Name: 'In Progress' }, Effort: 3, ModifyDate: '2024-05-02T10:00:00Z' }],
+};
+
+let calls: SearchCall[];
+let provider: PromptProvider;
+
+beforeEach(() => {
+  calls = [];
+  const service = {
+    getEntity: jest.fn(async (type: string, id: number) => ({ Id: id, Name: `${type} ${id}`, StartDate: '2024-04-22', EndDate: '2024-05-03' })),
+    searchEntities: jest.fn(async (type: string, where: string, include: string[], _take: number, orderBy: unknown[]) => {
+      calls.push({ type, where, include, orderBy });
+      if (type !== 'UserStory') {
+        return [];
+      }
+      return where.includes("IsFinal eq 'true'") ? STORIES.final : where.includes("IsFinal eq 'false'") ? STORIES.open : [...STORIES.final, ...STORIES.open];
+    }),
+  };
+  provider = new PromptProvider({ get: () => service } as unknown as TPInstanceManager);
+});
+
+function data(prompt: { messages: { content: { text: string } }[] }): Record<string, unknown> {
+  const text = prompt.messages[0].content.text;
+  return JSON.parse(text.slice(text.indexOf('Data:\n') + 'Data:\n'.length));
+}
+
+describe('PromptProvider', () => {
+  it('requests every summarized field and sorts by modification date', async () => {
+    await provider.getPrompt('sprint_review', { teamIterationId: '7' });
+
+    for (const call of calls) {
+      expect(call.include).toEqual(expect.arrayContaining(['Id', 'Name', 'EntityState', 'Effort', 'ModifyDate']));
+      expect(call.orderBy).toEqual([{ field: 'ModifyDate', direction: 'desc' }]);
+    }
+  });
+
+  it('splits a sprint into delivered and carried over work with effort totals', async () => {
+    const review = data(await provider.getPrompt('sprint_review', { teamIterationId: '7' }));
+
+    expect(calls.map(call => call.where)).toContain("(TeamIteration.Id eq 7) and (EntityState.IsFinal eq 'true')");
+    expect(review.totals).toEqual({ items: 2, delivered: 1, carriedOver: 1, plannedEffort: 8, deliveredEffort: 5 });
+    expect(review.delivered).toEqual([{
+      id: 1,
+      type: 'UserStory',
+      name: 'Login page',
+      state: 'Done',
+      final: true,
+      assigned: ['Ann Lee'],
+      effort: 5,
+      modified: '2024-05-01T10:00:00Z',
+    }]);
+    expect((review.carriedOver as { name: string; final: boolean }[]).map(item => [item.name, item.final])).toEqual([['Password reset', false]]);
+  });
+
+  it('filters bug triage to open bugs and includes their severity', async () => {
+    await provider.getPrompt('bug_triage', { projectId: '3' });
+
+    expect(calls).toEqual([expect.objectContaining({
+      type: 'Bug',
+      where: "(Project.Id eq 3) and (EntityState.IsFinal eq 'false')",
+      include: expect.arrayContaining(['Severity']),
+    })]);
+  });
+
+  it('rejects invalid arguments and unknown prompts', async () => {
+    await expect(provider.getPrompt('sprint_review', { teamIterationId: 'abc' })).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(provider.getPrompt('nope', {})).rejects.toBeInstanceOf(McpError);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceProvider } from '../resource/resource.provider.js';
+import { TPInstanceManager } from '../api/client/tp.instances.js';
+
+function fakeService() {
+  return {
+    getEntity: jest.fn(async (type: string, id: number) => ({ Id: id, ResourceType: type })),
+    searchEntities: jest.fn(async () => [{ Id: 1, Name: 'Crash on login' }]),
+    fetchMetadata: jest.fn(async () => ({ Items: [{ Name: 'Bug', Fields: ['Id', 'Name'] }] })),
+  };
+}
+
+let services: Record<string, ReturnType<typeof fakeService>>;
+let provider: ResourceProvider;
+
+beforeEach(() => {
+  services = { default: fakeService(), sandbox: fakeService() };
+  const instances = {
+    get: (name?: string) => {
+      const service = services[name || 'default'];
+      if (!service) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown instance: '${name}'`);
+      }
+      return service;
+    },
+  };
+  provider = new ResourceProvider(instances as unknown as TPInstanceManager);
+});
+
+async function read(uri: string): Promise<unknown> {
+  const result = await provider.readResource(uri);
+  return JSON.parse(result.contents[0].text);
+}
+
+async function rejection(uri: string): Promise<McpError> {
+  const error = await provider.readResource(uri).then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(McpError);
+  expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  return error as McpError;
+}
+
+describe('ResourceProvider', () => {
+  describe('URI parsing', () => {
+    it('reads a single entity', async () => {
+      expect(await read('tp://UserStory/1234')).toEqual({ Id: 1234, ResourceType: 'UserStory' });
+      expect(services.default.getEntity).toHaveBeenCalledWith('UserStory', 1234);
+    });
+
+    it('routes ?instance= to that instance', async () => {
+      await read('tp://Bug/7?instance=sandbox');
+      expect(services.sandbox.getEntity).toHaveBeenCalledWith('Bug', 7);
+      expect(services.default.getEntity).not.toHaveBeenCalled();
+    });
+
+    it('reads entity type metadata', async () => {
+      expect(await read('tp://meta/Bug')).toEqual({ Name: 'Bug', Fields: ['Id', 'Name'] });
+      expect((await rejection('tp://meta/Nope')).message).toContain("No metadata found for entity type 'Nope'");
+    });
+
+    it('rejects other schemes, bad IDs and extra segments', async () => {
+      expect((await rejection('http://UserStory/1')).message).toContain('Unsupported resource URI');
+      expect((await rejection('tp://UserStory/abc')).message).toContain('Invalid resource URI');
+      expect((await rejection('tp://UserStory/0')).message).toContain('Invalid resource URI');
+      expect((await rejection('tp://Project/1/open-bugs/more')).message).toContain('Invalid resource URI');
+    });
+  });
+
+  describe('collection views', () => {
+    it('filters by the container field, lists names and sorts newest first', async () => {
+      await read('tp://Project/55/open-bugs');
+
+      expect(services.default.searchEntities).toHaveBeenCalledWith(
+        'Bug',
+        "(Project.Id eq 55) and (EntityState.IsFinal eq 'false')",
+        expect.arrayContaining(['Id', 'Name', 'EntityState']),
+        100,
+        [{ field: 'CreateDate', direction: 'desc' }]
+      );
+    });
+
+    it('links user stories to epics through their feature', async () => {
+      await read('tp://Epic/9/open-user-stories');
+
+      expect(services.default.searchEntities).toHaveBeenCalledWith(
+        'UserStory',
+        "(Feature.Epic.Id eq 9) and (EntityState.IsFinal eq 'false')",
+        expect.anything(),
+        100,
+        expect.anything()
+      );
+    });
+
+    it('rejects containers a view does not support', async () => {
+      expect((await rejection('tp://Epic/9/open-bugs')).message).toContain("View 'open-bugs' is only available under: Project, Team, Release, Iteration, TeamIteration, Feature");
+      expect((await rejection('tp://Feature/3/open-tasks')).message).toContain("View 'open-tasks' is only available under");
+      expect(services.default.searchEntities).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown views', async () => {
+      expect((await rejection('tp://Project/55/closed-bugs')).message).toContain("Unknown view 'closed-bugs'");
+    });
+  });
+});
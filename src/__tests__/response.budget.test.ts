@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ResponseBudget, continuationOwner } from '../output/response.budget.js';
+
+const LONG_TEXT = Array.from({ length: 200 }, (_, index) => `line ${index}`).join('\n');
+
+function handleOf(content: { text: string }[]): string {
+  return JSON.parse(content[content.length - 1].text).truncation.continuation;
+}
+
+describe('continuationOwner', () => {
+  it('reads the instance in front of the handle', () => {
+    expect(continuationOwner('sandbox:1b4e28ba-2fa1-11d2-883f-0016d3cca427')).toBe('sandbox');
+    expect(continuationOwner('eu:prod:1b4e28ba-2fa1-11d2-883f-0016d3cca427')).toBe('eu:prod');
+  });
+
+  it('finds no owner in handles without one', () => {
+    expect(continuationOwner('1b4e28ba-2fa1-11d2-883f-0016d3cca427')).toBeUndefined();
+    expect(continuationOwner(':1b4e28ba')).toBeUndefined();
+    expect(continuationOwner(42)).toBeUndefined();
+    expect(continuationOwner(undefined)).toBeUndefined();
+  });
+});
+
+describe('ResponseBudget', () => {
+  it('names its owner in continuation handles', () => {
+    const handle = handleOf(new ResponseBudget({ maxResponseChars: 500 }, 'sandbox').fitText([{ type: 'text', text: LONG_TEXT }]));
+
+    expect(continuationOwner(handle)).toBe('sandbox');
+  });
+
+  it('only continues its own handles', () => {
+    const sandbox = new ResponseBudget({ maxResponseChars: 500 }, 'sandbox');
+    const production = new ResponseBudget({ maxResponseChars: 500 }, 'production');
+    const handle = handleOf(sandbox.fitText([{ type: 'text', text: LONG_TEXT }]));
+
+    expect(() => production.next(handle)).toThrow(McpError);
+    expect(sandbox.next(handle)[0].text).toContain('line');
+  });
+});
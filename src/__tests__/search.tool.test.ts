@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { SearchTool } from '../tools/search/search.tool.js';
+import { TPService } from '../api/client/tp.service.js';
+
+function cursorOf(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+let service: {
+  searchEntitiesPage: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  normalize: (value: unknown) => unknown;
+  fitItems: (items: unknown[], render: unknown, meta: Record<string, unknown>) => unknown;
+};
+let tool: SearchTool;
+
+beforeEach(() => {
+  service = {
+    searchEntitiesPage: jest.fn(async () => ({ items: [{ Id: 1 }], skip: 0, nextSkip: 100, hasMore: true })),
+    normalize: (value) => value,
+    fitItems: (items, _render, meta) => [{ type: 'text', text: JSON.stringify({ items, ...meta }) }],
+  };
+  tool = new SearchTool(service as unknown as TPService);
+});
+
+async function rejection(args: Record<string, unknown>): Promise<McpError> {
+  const error = await tool.execute(args).then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(McpError);
+  expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  return error as McpError;
+}
+
+describe('SearchTool cursors', () => {
+  it('continues from the skip of the cursor it returned', async () => {
+    const first = await tool.execute({ type: 'Bug', where: "EntityState.Name eq 'Open'" });
+    const { paging } = JSON.parse(first.content[0].text);
+
+    await tool.execute({ type: 'Bug', where: "EntityState.Name eq 'Open'", cursor: paging.nextCursor });
+
+    expect(service.searchEntitiesPage).toHaveBeenLastCalledWith('Bug', "EntityState.Name eq 'Open'", undefined, undefined, undefined, 100);
+  });
+
+  it.each([
+    ['not base64 JSON', 'definitely-not-a-cursor'],
+    ['null', cursorOf(null)],
+    ['a number', cursorOf(42)],
+    ['an array', cursorOf([1, 2])],
+  ])('rejects a cursor that is %s', async (_label, cursor) => {
+    expect((await rejection({ type: 'Bug', cursor })).message).toContain('Invalid cursor');
+    expect(service.searchEntitiesPage).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cursor from another query', async () => {
+    const cursor = cursorOf({ type: 'Bug', where: "EntityState.Name eq 'Open'", skip: 100 });
+
+    expect((await rejection({ type: 'Task', where: "EntityState.Name eq 'Open'", cursor })).message).toContain('Cursor does not belong to this query');
+    expect((await rejection({ type: 'Bug', cursor })).message).toContain('Cursor does not belong to this query');
+    expect((await rejection({ type: 'Bug', cursor: cursorOf({ type: 'Bug', skip: 'x' }) })).message).toContain('Cursor does not belong to this query');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fetch from 'node-fetch';
+import { URL } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { TargetProcessServer } from '../server.js';
+
+jest.mock('node-fetch', () => ({ __esModule: true, default: jest.fn() }));
+
+const fetchMock = fetch as unknown as jest.Mock<(url: string) => Promise<unknown>>;
+
+const ENTITY_TYPES = { Items: [{ Name: 'Bug' }] };
+
+/**
+ * Every instance answers a search with enough bugs to overflow a small response budget
+ */
+function answer(url: string) {
+  const host = new URL(url).host;
+  const body = url.includes('/Index/meta')
+    ? ENTITY_TYPES
+    : { Items: Array.from({ length: 40 }, (_, index) => ({ Id: index + 1, Name: `Bug ${index + 1} on ${host}` })) };
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    headers: { get: () => null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+}
+
+const ENV_KEYS = ['TP_INSTANCES', 'TP_DEFAULT_INSTANCE', 'TP_DOMAIN', 'TP_ACCESS_TOKEN', 'TP_MAX_RESPONSE_CHARS'];
+let savedEnv: Record<string, string | undefined>;
+let client: Client;
+
+beforeEach(async () => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  process.env.TP_INSTANCES = JSON.stringify({
+    production: { domain: 'acme.tpondemand.com', accessToken: 'production-token' },
+    sandbox: { domain: 'acme-sandbox.tpondemand.com', accessToken: 'sandbox-token' },
+  });
+  process.env.TP_DEFAULT_INSTANCE = 'production';
+  process.env.TP_MAX_RESPONSE_CHARS = '1500';
+
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(answer);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  const server = (new TargetProcessServer() as unknown as { createServer(): Server }).createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterEach(async () => {
+  await client.close();
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+  jest.restoreAllMocks();
+});
+
+async function call(name: string, args: Record<string, unknown>): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  return (result.content as { text: string }[]).map(block => block.text).join('\n');
+}
+
+function continuationOf(text: string): string {
+  const match = /"continuation":\s*"([^"]+)"/.exec(text);
+  expect(match).not.toBeNull();
+  return match![1];
+}
+
+describe('TargetProcessServer', () => {
+  it('offers the instance argument when several instances are configured', async () => {
+    const { tools } = await client.listTools();
+    const search = tools.find(tool => tool.name === 'search_entities');
+
+    expect(search?.inputSchema.properties?.instance).toMatchObject({ enum: ['production', 'sandbox'] });
+  });
+
+  it('routes a call to the requested instance', async () => {
+    expect(await call('search_entities', { type: 'Bug', take: 5, instance: 'sandbox' })).toContain('on acme-sandbox.tpondemand.com');
+    expect(await call('search_entities', { type: 'Bug', take: 5 })).toContain('on acme.tpondemand.com');
+  });
+
+  it('continues a truncated response on the instance that produced it', async () => {
+    const first = await call('search_entities', { type: 'Bug', instance: 'sandbox' });
+    const continuation = continuationOf(first);
+    expect(continuation.startsWith('sandbox:')).toBe(true);
+
+    // Neither the default instance nor an explicit other one holds the rest
+    const rest = await call('fetch_more', { continuation });
+    expect(rest).toContain('on acme-sandbox.tpondemand.com');
+    const again = await call('fetch_more', { continuation: continuationOf(rest), instance: 'production' });
+    expect(again).toContain('on acme-sandbox.tpondemand.com');
+  });
+
+  it('rejects continuations of unknown instances', async () => {
+    await expect(call('fetch_more', { continuation: 'staging:00000000-0000-0000-0000-000000000000' }))
+      .rejects.toThrow('Continuation not found or expired');
+  });
+});
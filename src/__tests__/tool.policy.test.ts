@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ToolPolicy } from '../policy/tool.policy.js';
+import { ToolDefinition } from '../tools/tool.registry.js';
+import { TPService } from '../api/client/tp.service.js';
+
+function definition(name: string, readOnly = false): ToolDefinition {
+  return {
+    name,
+    description: name,
+    annotations: readOnly ? { readOnlyHint: true } : { readOnlyHint: false, destructiveHint: true },
+    inputSchema: { type: 'object' },
+  };
+}
+
+const search = definition('search_entities', true);
+const create = definition('create_entity');
+const remove = definition('delete_entity');
+
+/**
+ * Service whose getEntity answers General IDs with their ResourceType and
+ * records (Comment, Relation, ...) with the given references
+ */
+function fakeService(generals: Record<number, string>, records: Record<string, Record<string, unknown>> = {}) {
+  const getEntity = jest.fn(async (type: string, id: number) =>
+    type === 'General' ? { Id: id, ResourceType: generals[id] } : { Id: id, ...records[`${type}:${id}`] }
+  );
+  return { service: { getEntity } as unknown as TPService, getEntity };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<McpError> {
+  const error = await promise.then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(McpError);
+  expect((error as McpError).code).toBe(ErrorCode.InvalidRequest);
+  return error as McpError;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ToolPolicy', () => {
+  describe('tool listing', () => {
+    it('exposes every tool without a policy', () => {
+      const policy = new ToolPolicy({});
+
+      expect([search, create, remove].every(tool => policy.isToolEnabled(tool))).toBe(true);
+    });
+
+    it('hides tools without readOnlyHint in read-only mode', () => {
+      const policy = new ToolPolicy({ readOnly: true });
+
+      expect(policy.isToolEnabled(search)).toBe(true);
+      expect(policy.isToolEnabled(create)).toBe(false);
+      expect(policy.isToolEnabled({ ...search, annotations: undefined })).toBe(false);
+    });
+
+    it('lets the deny list win over the allow list', () => {
+      const policy = new ToolPolicy({ allowTools: ['search_entities', 'delete_entity'], denyTools: ['delete_entity'] });
+
+      expect(policy.isToolEnabled(search)).toBe(true);
+      expect(policy.isToolEnabled(create)).toBe(false);
+      expect(policy.isToolEnabled(remove)).toBe(false);
+    });
+
+    it('rejects calls to hidden tools', async () => {
+      const policy = new ToolPolicy({ denyTools: ['delete_entity'] });
+      const { service } = fakeService({});
+
+      expect((await rejection(policy.assertCallAllowed(remove, { type: 'Bug', id: 1 }, service))).message)
+        .toContain("Tool 'delete_entity' is disabled by server policy");
+    });
+
+    it('warns about policy entries that match no tool', () => {
+      const warn = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      new ToolPolicy({ denyTools: ['delete_entiy'], allowedEntityTypes: { create_entity: ['Bug'] } })
+        .warnUnknownTools(['create_entity', 'delete_entity']);
+
+      expect(warn.mock.calls).toEqual([["Policy references unknown tool 'delete_entiy'"]]);
+    });
+  });
+
+  describe('entity type restrictions', () => {
+    const policy = new ToolPolicy({
+      allowedEntityTypes: {
+        create_entity: ['Bug', 'Task'],
+        create_relation: ['Bug'],
+        delete_comment: ['Task'],
+        custom_tool: ['Bug'],
+      },
+    });
+
+    it('checks entity types named in the arguments', async () => {
+      const { service, getEntity } = fakeService({});
+
+      await policy.assertCallAllowed(create, { type: 'Bug' }, service);
+      expect((await rejection(policy.assertCallAllowed(create, { type: 'Epic' }, service))).message)
+        .toBe("MCP error -32600: Tool 'create_entity' is not allowed on Epic. Allowed entity types: Bug, Task");
+      expect(getEntity).not.toHaveBeenCalled();
+    });
+
+    it('looks up the types of every referenced General', async () => {
+      const { service, getEntity } = fakeService({ 1: 'Bug', 2: 'UserStory' });
+
+      expect((await rejection(policy.assertCallAllowed(definition('create_relation'), { masterId: 1, slaveId: 2 }, service))).message)
+        .toContain('not allowed on UserStory');
+      expect(getEntity).toHaveBeenCalledWith('General', 1);
+      expect(getEntity).toHaveBeenCalledWith('General', 2);
+    });
+
+    it('looks up the entity a record belongs to', async () => {
+      const { service, getEntity } = fakeService({}, { 'Comment:5': { General: { ResourceType: 'Task' } }, 'Comment:6': { General: { ResourceType: 'Bug' } } });
+      const deleteComment = definition('delete_comment');
+
+      await policy.assertCallAllowed(deleteComment, { commentId: 5 }, service);
+      expect((await rejection(policy.assertCallAllowed(deleteComment, { commentId: 6 }, service))).message)
+        .toContain('not allowed on Bug');
+      expect(getEntity).toHaveBeenCalledWith('Comment', 5, ['General']);
+    });
+
+    it('refuses restricted tools whose target it cannot determine', async () => {
+      const { service } = fakeService({});
+
+      expect((await rejection(policy.assertCallAllowed(definition('custom_tool'), {}, service))).message)
+        .toContain('cannot determine which entity it affects');
+    });
+
+    it('leaves unrestricted tools alone', async () => {
+      const { service, getEntity } = fakeService({});
+
+      await policy.assertCallAllowed(remove, { type: 'Epic', id: 1 }, service);
+      expect(getEntity).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ToolDefinition, ToolRegistry } from '../tools/tool.registry.js';
+import { TPService } from '../api/client/tp.service.js';
+
+const service = {} as TPService;
+
+function definition(name: string): ToolDefinition {
+  return { name, description: `${name} tool`, inputSchema: { type: 'object', properties: {} } };
+}
+
+const handler = async () => ({ content: [{ type: 'text', text: 'ok' }] });
+
+let registry: ToolRegistry;
+
+beforeEach(() => {
+  registry = new ToolRegistry();
+});
+
+describe('ToolRegistry', () => {
+  it('lists registered tools in registration order', () => {
+    registry.register(definition('search_entities'), handler);
+    registry.register(definition('get_entity'), handler);
+
+    expect(registry.size).toBe(2);
+    expect(registry.names()).toEqual(['search_entities', 'get_entity']);
+    expect(registry.definitions().map(tool => tool.description)).toEqual(['search_entities tool', 'get_entity tool']);
+    expect(registry.has('get_entity')).toBe(true);
+    expect(registry.get('get_entity')?.handler).toBe(handler);
+    expect(registry.get('delete_entity')).toBeUndefined();
+  });
+
+  it('rejects a second tool with the same name', () => {
+    registry.register(definition('get_entity'), handler);
+
+    expect(() => registry.register(definition('get_entity'), handler)).toThrow("Tool 'get_entity' is already registered");
+  });
+
+  it('registers every tool of a module', async () => {
+    await registry.registerModule({
+      register(target) {
+        target.register(definition('first'), handler);
+        target.register(definition('second'), handler);
+      },
+    }, service);
+
+    expect(registry.names()).toEqual(['first', 'second']);
+  });
+
+  describe('loadFromDirectory', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tp-tools-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('fails for a missing directory', async () => {
+      await expect(registry.loadFromDirectory(path.join(directory, 'missing'), service))
+        .rejects.toThrow('Tool modules directory not found');
+    });
+
+    it('skips files that are not JavaScript modules', async () => {
+      fs.writeFileSync(path.join(directory, 'README.md'), '# Tools');
+
+      expect(await registry.loadFromDirectory(directory, service)).toEqual([]);
+      expect(registry.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { URL } from 'node:url';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { TPAuthConfig, TPAuthProvider, createAuthProvider, scrubSecrets } from '../api/client/tp.auth.js';
+
+function applied(provider: TPAuthProvider): { url: string; headers: Record<string, string> } {
+  const url = new URL('https://acme.tpondemand.com/api/v1/Bugs?format=json');
+  const headers: Record<string, string> = {};
+  provider.apply(url, headers);
+  return { url: url.toString(), headers };
+}
+
+describe('createAuthProvider', () => {
+  it('sends the access token as a bearer header by default', () => {
+    const { url, headers } = applied(createAuthProvider(undefined, 'secret-token'));
+
+    expect(headers).toEqual({ Authorization: 'Bearer secret-token' });
+    expect(url).not.toContain('secret-token');
+  });
+
+  it('supports a custom header and scheme', () => {
+    const provider = createAuthProvider({ type: 'token', token: 'own-token', headerName: 'X-Api-Key', scheme: '' }, 'ignored');
+
+    expect(applied(provider).headers).toEqual({ 'X-Api-Key': 'own-token' });
+  });
+
+  it('sends login and password as basic auth', () => {
+    const provider = createAuthProvider({ type: 'basic', login: 'ann', password: 'p@ss word' }, undefined);
+    const encoded = Buffer.from('ann:p@ss word').toString('base64');
+
+    expect(applied(provider).headers).toEqual({ Authorization: `Basic ${encoded}` });
+    expect(provider.secrets()).toEqual(expect.arrayContaining(['p@ss word', 'p%40ss%20word', encoded]));
+  });
+
+  it('adds the legacy access_token query parameter in query mode', () => {
+    const { url, headers } = applied(createAuthProvider({ type: 'query' }, 'query-token'));
+
+    expect(new URL(url).searchParams.get('access_token')).toBe('query-token');
+    expect(headers).toEqual({});
+  });
+
+  describe('service account token file', () => {
+    let directory: string;
+    let tokenFile: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tp-auth-'));
+      tokenFile = path.join(directory, 'token');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('reads the token and picks up a rotated one', () => {
+      fs.writeFileSync(tokenFile, 'first-token\n');
+      const provider = createAuthProvider({ type: 'serviceAccount', tokenFile }, undefined);
+      expect(applied(provider).headers).toEqual({ Authorization: 'Bearer first-token' });
+
+      fs.writeFileSync(tokenFile, 'second-token\n');
+      fs.utimesSync(tokenFile, new Date(), new Date(Date.now() + 5000));
+      expect(applied(provider).headers).toEqual({ Authorization: 'Bearer second-token' });
+      expect(provider.secrets()).toContain('second-token');
+    });
+
+    it('fails for a missing or empty file', () => {
+      expect(() => createAuthProvider({ type: 'serviceAccount', tokenFile }, undefined)).toThrow('Failed to read service account token file');
+
+      fs.writeFileSync(tokenFile, '  \n');
+      expect(() => createAuthProvider({ type: 'serviceAccount', tokenFile }, undefined)).toThrow('is empty');
+    });
+  });
+
+  it('rejects incomplete or unknown configurations', () => {
+    expect(() => createAuthProvider(undefined, undefined)).toThrow('Token auth requires an access token');
+    expect(() => createAuthProvider({ type: 'query' }, undefined)).toThrow('Query auth requires an access token');
+    expect(() => createAuthProvider({ type: 'basic', login: 'ann', password: '' }, undefined)).toThrow('Basic auth requires login and password');
+    expect(() => createAuthProvider({ type: 'oauth' } as unknown as TPAuthConfig, 'token')).toThrow(McpError);
+  });
+});
+
+describe('scrubSecrets', () => {
+  it('replaces every occurrence of every secret', () => {
+    const message = 'GET https://acme.tpondemand.com/api/v1/Bugs?access_token=abc%2Fdef failed, token abc/def';
+
+    expect(scrubSecrets(message, ['abc/def', encodeURIComponent('abc/def')]))
+      .toBe('GET https://acme.tpondemand.com/api/v1/Bugs?access_token=*** failed, token ***');
+  });
+
+  it('replaces longer secrets before the shorter ones they contain', () => {
+    expect(scrubSecrets('Basic dG9rZW4tbG9uZw==', ['dG9r', 'dG9rZW4tbG9uZw=='])).toBe('Basic ***');
+  });
+
+  it('leaves very short secrets alone rather than mangling the message', () => {
+    expect(scrubSecrets('failed: 404 - Not found', ['4', 'ot'])).toBe('failed: 404 - Not found');
+  });
+
+  it('scrubs what a provider reports as secret', () => {
+    const provider = createAuthProvider({ type: 'query' }, 'q/token');
+    const { url } = applied(provider);
+
+    expect(scrubSecrets(`request to ${url} failed`, provider.secrets()))
+      .toBe('request to https://acme.tpondemand.com/api/v1/Bugs?format=json&access_token=*** failed');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ResponseCache } from '../api/client/tp.cache.js';
+
+let now: number;
+
+function loader<T>(value: T) {
+  return jest.fn(async () => structuredClone(value));
+}
+
+beforeEach(() => {
+  now = Date.parse('2024-05-01T10:00:00Z');
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ResponseCache', () => {
+  describe('TTL', () => {
+    it('serves a response until its TTL runs out', async () => {
+      const cache = new ResponseCache({ defaultTtlSeconds: 30 });
+      const load = loader({ Id: 7, Name: 'Crash' });
+
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, load);
+      now += 29 * 1000;
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, load);
+      expect(load).toHaveBeenCalledTimes(1);
+
+      now += 1000;
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, load);
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, entries: 1 });
+    });
+
+    it('uses per-type TTLs and skips types with a TTL of 0', async () => {
+      const cache = new ResponseCache({ defaultTtlSeconds: 30, ttlSeconds: { UserStory: 120, Bug: 0 } });
+      const story = loader({ Id: 1 });
+      const bug = loader({ Id: 2 });
+
+      now += 60 * 1000;
+      await cache.getOrLoad('get:UserStorys/1', { kind: 'get', type: 'UserStory', id: 1 }, story);
+      now += 60 * 1000;
+      await cache.getOrLoad('get:UserStorys/1', { kind: 'get', type: 'UserStory', id: 1 }, story);
+      await cache.getOrLoad('get:Bugs/2', { kind: 'get', type: 'Bug', id: 2 }, bug);
+      await cache.getOrLoad('get:Bugs/2', { kind: 'get', type: 'Bug', id: 2 }, bug);
+
+      expect(story).toHaveBeenCalledTimes(1);
+      expect(bug).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps metadata for an hour by default', async () => {
+      const cache = new ResponseCache({ defaultTtlSeconds: 30 });
+      const load = loader({ Items: [] });
+
+      await cache.getOrLoad('meta:Index/meta', { kind: 'meta', type: 'meta' }, load);
+      now += 59 * 60 * 1000;
+      await cache.getOrLoad('meta:Index/meta', { kind: 'meta', type: 'meta' }, load);
+
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('loads every time when disabled', async () => {
+      const cache = new ResponseCache({ enabled: false });
+      const load = loader({ Id: 7 });
+
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, load);
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(cache.stats()).toMatchObject({ enabled: false, entries: 0 });
+    });
+
+    it('hands out copies so callers cannot change cached responses', async () => {
+      const cache = new ResponseCache();
+      const first = await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, loader({ Id: 7, Name: 'Crash' }));
+      first.Name = 'Changed';
+
+      expect(await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, loader({ Id: 7, Name: 'Other' })))
+        .toEqual({ Id: 7, Name: 'Crash' });
+    });
+
+    it('evicts the oldest entries beyond maxEntries', async () => {
+      const cache = new ResponseCache({ maxEntries: 2 });
+      for (const id of [1, 2, 3]) {
+        await cache.getOrLoad(`get:Bugs/${id}`, { kind: 'get', type: 'Bug', id }, loader({ Id: id }));
+      }
+      const reload = loader({ Id: 1 });
+
+      await cache.getOrLoad('get:Bugs/1', { kind: 'get', type: 'Bug', id: 1 }, reload);
+
+      expect(reload).toHaveBeenCalledTimes(1);
+      expect(cache.stats().entries).toBe(2);
+    });
+  });
+
+  describe('invalidation', () => {
+    let cache: ResponseCache;
+
+    beforeEach(async () => {
+      cache = new ResponseCache();
+      await cache.getOrLoad('get:Bugs/7', { kind: 'get', type: 'Bug', id: 7 }, loader({ Id: 7 }));
+      await cache.getOrLoad('get:Generals/7', { kind: 'get', type: 'General', id: 7 }, loader({ Id: 7 }));
+      await cache.getOrLoad('get:Bugs/8', { kind: 'get', type: 'Bug', id: 8 }, loader({ Id: 8 }));
+      await cache.getOrLoad('search:Bugs', { kind: 'search', type: 'Bug' }, loader([{ Id: 7 }, { Id: 8 }]));
+    });
+
+    function cachedTypes(): string[] {
+      return Object.entries(cache.stats().byType).flatMap(([type, count]) => Array<string>(count).fill(type));
+    }
+
+    it('drops the changed entity under every type and all searches', () => {
+      cache.invalidateEntity(7);
+
+      expect(cache.stats()).toMatchObject({ entries: 1, invalidations: 3 });
+      expect(cachedTypes()).toEqual(['Bug']);
+    });
+
+    it('drops only searches when no entity is given', () => {
+      cache.invalidateEntity();
+
+      expect(cache.stats().entries).toBe(3);
+    });
+
+    it('does not store a response loaded across an invalidation', async () => {
+      let finish: (value: { Id: number }) => void = () => undefined;
+      const pending = cache.getOrLoad('get:Bugs/9', { kind: 'get', type: 'Bug', id: 9 }, () =>
+        new Promise<{ Id: number }>(resolve => { finish = resolve; })
+      );
+
+      cache.invalidateEntity(9);
+      finish({ Id: 9 });
+
+      expect(await pending).toEqual({ Id: 9 });
+      const reload = loader({ Id: 9 });
+      await cache.getOrLoad('get:Bugs/9', { kind: 'get', type: 'Bug', id: 9 }, reload);
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it('flushes by type, by ID or everything', () => {
+      expect(cache.flush({ type: 'General' })).toBe(1);
+      expect(cache.flush({ id: 8 })).toBe(1);
+      expect(cache.flush()).toBe(2);
+      expect(cache.stats().entries).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RequestCoalescer } from '../api/client/tp.coalescer.js';
+
+/**
+ * Operation that stays in flight until settled by the test
+ */
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (error: Error) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { operation: jest.fn(() => promise), resolve, reject };
+}
+
+let coalescer: RequestCoalescer;
+
+beforeEach(() => {
+  coalescer = new RequestCoalescer();
+});
+
+describe('RequestCoalescer', () => {
+  it('shares one in-flight read between identical callers', async () => {
+    const read = deferred<{ Id: number }>();
+
+    const first = coalescer.run('get:Bugs/7', read.operation);
+    const second = coalescer.run('get:Bugs/7', read.operation);
+    expect(coalescer.diagnostics()).toEqual({ inFlight: 1, coalesced: 1 });
+
+    read.resolve({ Id: 7 });
+    expect(await first).toEqual({ Id: 7 });
+    expect(await second).toEqual({ Id: 7 });
+    expect(read.operation).toHaveBeenCalledTimes(1);
+    expect(coalescer.diagnostics().inFlight).toBe(0);
+  });
+
+  it('gives every joined caller its own copy', async () => {
+    const read = deferred<{ Id: number; Name: string }>();
+
+    const first = coalescer.run('get:Bugs/7', read.operation);
+    const second = coalescer.run('get:Bugs/7', read.operation);
+    read.resolve({ Id: 7, Name: 'Crash' });
+    const [a, b] = await Promise.all([first, second]);
+    b.Name = 'Changed';
+
+    expect(a.Name).toBe('Crash');
+  });
+
+  it('runs reads with different keys separately', async () => {
+    const bug = deferred<number>();
+    const story = deferred<number>();
+
+    const results = Promise.all([coalescer.run('get:Bugs/7', bug.operation), coalescer.run('get:UserStorys/7', story.operation)]);
+    bug.resolve(1);
+    story.resolve(2);
+
+    expect(await results).toEqual([1, 2]);
+    expect(coalescer.diagnostics()).toEqual({ inFlight: 0, coalesced: 0 });
+  });
+
+  it('passes a failure to every joined caller and retries afterwards', async () => {
+    const failing = deferred<number>();
+    const first = coalescer.run('get:Bugs/7', failing.operation);
+    const second = coalescer.run('get:Bugs/7', failing.operation);
+
+    failing.reject(new Error('503'));
+    await expect(first).rejects.toThrow('503');
+    await expect(second).rejects.toThrow('503');
+
+    expect(await coalescer.run('get:Bugs/7', async () => 7)).toBe(7);
+  });
+
+  it('sends a fresh read after clear while the older one finishes on its own', async () => {
+    const stale = deferred<string>();
+    const fresh = deferred<string>();
+
+    const before = coalescer.run('get:Bugs/7', stale.operation);
+    coalescer.clear();
+    const after = coalescer.run('get:Bugs/7', fresh.operation);
+    const joined = coalescer.run('get:Bugs/7', stale.operation);
+
+    stale.resolve('before update');
+    await before;
+    expect(coalescer.diagnostics().inFlight).toBe(1);
+
+    fresh.resolve('after update');
+    expect(await after).toBe('after update');
+    expect(await joined).toBe('after update');
+    expect(coalescer.diagnostics().inFlight).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CustomFieldDefinition, CustomFieldInput, buildCustomFields } from '../api/client/tp.customfields.js';
+
+const DEFINITIONS: CustomFieldDefinition[] = [
+  { Id: 1, Name: 'Story Points', FieldType: 'Number' },
+  { Id: 2, Name: 'Budget', FieldType: 'Money' },
+  { Id: 3, Name: 'Blocked', FieldType: 'CheckBox' },
+  { Id: 4, Name: 'Due', FieldType: 'Date' },
+  { Id: 5, Name: 'Risk', FieldType: 'DropDown', Value: 'Low\r\nMedium\nHigh', Required: true },
+  { Id: 6, Name: 'Platforms', FieldType: 'MultipleSelectionList', Value: 'iOS\nAndroid\nWeb' },
+  { Id: 7, Name: 'Customer', FieldType: 'Entity' },
+  { Id: 8, Name: 'Related', FieldType: 'MultipleEntities' },
+  { Id: 9, Name: 'Spec', FieldType: 'URL' },
+  { Id: 10, Name: 'Notes', FieldType: 'Text' },
+];
+
+function build(values: Record<string, CustomFieldInput>, create = false) {
+  return buildCustomFields('UserStory', DEFINITIONS, values, { create });
+}
+
+function problemsOf(values: Record<string, CustomFieldInput>, create = false): string {
+  try {
+    build(values, create);
+  } catch (error) {
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    return (error as McpError).message;
+  }
+  throw new Error('Expected invalid custom fields');
+}
+
+describe('buildCustomFields', () => {
+  it('converts values to the shape of each field type', () => {
+    expect(build({
+      'Story Points': '5',
+      Budget: 1200.5,
+      Blocked: 'true',
+      Due: '2024-05-01',
+      Risk: 'high',
+      Platforms: 'ios, web',
+      Customer: { id: 42, type: 'Company' },
+      Related: [{ id: 1, type: 'UserStory' }, { id: 2, type: 'Bug' }],
+      Spec: 'https://example.com/spec',
+      Notes: 7,
+    })).toEqual([
+      { Name: 'Story Points', Value: 5 },
+      { Name: 'Budget', Value: 1200.5 },
+      { Name: 'Blocked', Value: true },
+      { Name: 'Due', Value: '2024-05-01T00:00:00' },
+      { Name: 'Risk', Value: 'High' },
+      { Name: 'Platforms', Value: 'iOS,Web' },
+      { Name: 'Customer', Value: { Id: 42, Kind: 'Company' } },
+      { Name: 'Related', Value: '1 userstory,2 bug' },
+      { Name: 'Spec', Value: { Url: 'https://example.com/spec', Label: 'https://example.com/spec' } },
+      { Name: 'Notes', Value: '7' },
+    ]);
+  });
+
+  it('matches field names case-insensitively and keeps the defined name', () => {
+    expect(build({ 'story points': 3, BLOCKED: false })).toEqual([
+      { Name: 'Story Points', Value: 3 },
+      { Name: 'Blocked', Value: false },
+    ]);
+  });
+
+  it('clears optional fields with null or an empty value', () => {
+    expect(build({ Notes: null, Platforms: [] })).toEqual([
+      { Name: 'Notes', Value: null },
+      { Name: 'Platforms', Value: null },
+    ]);
+  });
+
+  it('reports every invalid value together with the available fields', () => {
+    const message = problemsOf({ 'Story Points': 'many', Blocked: 'yes', Due: 'tomorrow', Risk: 'Extreme', Related: [{ id: 1 }], Colour: 'red' });
+
+    expect(message).toContain('Invalid custom fields for UserStory');
+    expect(message).toContain('Story Points (Number): expected a number');
+    expect(message).toContain('Blocked (CheckBox): expected true or false');
+    expect(message).toContain('Due (Date): expected a date');
+    expect(message).toContain("Risk (DropDown): 'Extreme' is not one of: Low, Medium, High");
+    expect(message).toContain('Related (MultipleEntities): expected a list of { id, type }');
+    expect(message).toContain("unknown field 'Colour'");
+    expect(message).toContain('Available fields: Story Points (Number), Budget (Money)');
+    expect(message).toContain('Risk (DropDown, required)');
+  });
+
+  it('requires required fields on create but not on update', () => {
+    expect(problemsOf({ Notes: 'x' }, true)).toContain('Risk is required');
+    expect(build({ Notes: 'x' })).toEqual([{ Name: 'Notes', Value: 'x' }]);
+  });
+
+  it('never clears a required field', () => {
+    expect(problemsOf({ Risk: null })).toContain('Risk is required and cannot be empty');
+  });
+
+  it('says so when the type has no custom fields', () => {
+    expect(() => buildCustomFields('Team', [], { Colour: 'red' })).toThrow("unknown field 'Colour'. Available fields: none");
+  });
+});
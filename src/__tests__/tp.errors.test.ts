@@ -0,0 +1,59 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { FetchError } from 'node-fetch';
+import { TPHttpError, isConnectionError, isNetworkError, parseRetryAfter } from '../api/client/tp.errors.js';
+
+jest.mock('node-fetch', () => ({
+  __esModule: true,
+  // Same shape as node-fetch's FetchError, which takes the code from the system error
+  FetchError: class FetchError extends Error {
+    code?: string;
+
+    constructor(message: string, readonly type: string, systemError?: { code?: string }) {
+      super(message);
+      this.code = systemError?.code;
+    }
+  },
+}));
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-01T10:00:00Z');
+
+  it('reads delays in seconds', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('0.5', now)).toBe(500);
+    expect(parseRetryAfter('-2', now)).toBe(0);
+  });
+
+  it('reads HTTP dates relative to now', () => {
+    expect(parseRetryAfter('Wed, 01 May 2024 10:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 01 May 2024 09:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('TPHttpError', () => {
+  it('treats throttling and server errors as retryable', () => {
+    expect(new TPHttpError(429, 'throttled').retryable).toBe(true);
+    expect(new TPHttpError(503, 'unavailable').retryable).toBe(true);
+    expect(new TPHttpError(400, 'bad request').retryable).toBe(false);
+    expect(new TPHttpError(404, 'not found').retryable).toBe(false);
+  });
+});
+
+describe('network errors', () => {
+  it('only treats errors before the request was sent as connection errors', () => {
+    const refused = new FetchError('connect ECONNREFUSED', 'system', { code: 'ECONNREFUSED' });
+    const reset = new FetchError('socket hang up', 'system', { code: 'ECONNRESET' });
+
+    expect(isNetworkError(refused)).toBe(true);
+    expect(isConnectionError(refused)).toBe(true);
+    expect(isNetworkError(reset)).toBe(true);
+    expect(isConnectionError(reset)).toBe(false);
+    expect(isNetworkError(new Error('boom'))).toBe(false);
+  });
+});
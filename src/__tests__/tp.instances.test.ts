@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import fetch from 'node-fetch';
+import { URL } from 'node:url';
+import { TPInstanceManager } from '../api/client/tp.instances.js';
+
+jest.mock('node-fetch', () => ({ __esModule: true, default: jest.fn() }));
+
+const fetchMock = fetch as unknown as jest.Mock<(url: string, init: { headers: Record<string, string> }) => Promise<unknown>>;
+
+const ENTITY_TYPES = { Items: [{ Name: 'Bug' }, { Name: 'UserStory' }] };
+
+/**
+ * Answers metadata requests with ENTITY_TYPES and everything else with the requested URL
+ */
+function answer(url: string) {
+  const body = url.includes('/Index/meta') ? ENTITY_TYPES : { Id: 1, Url: url };
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    headers: { get: () => null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+}
+
+function manager(): TPInstanceManager {
+  return new TPInstanceManager({
+    instances: {
+      production: { domain: 'acme.tpondemand.com', accessToken: 'production-token' },
+      sandbox: { domain: 'acme-sandbox.tpondemand.com', accessToken: 'sandbox-token' },
+    },
+    defaultInstance: 'production',
+  });
+}
+
+function rejection(run: () => unknown): McpError {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(McpError);
+    return error as McpError;
+  }
+  throw new Error('Expected an McpError');
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(answer);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('TPInstanceManager', () => {
+  it('keeps one service per instance', () => {
+    const instances = manager();
+
+    expect(instances.names()).toEqual(['production', 'sandbox']);
+    expect(instances.size).toBe(2);
+    expect(instances.get('sandbox')).not.toBe(instances.get('production'));
+    expect(instances.get('sandbox')).toBe(instances.get('sandbox'));
+  });
+
+  it('falls back to the default instance without a name', () => {
+    const instances = manager();
+
+    expect(instances.get()).toBe(instances.get('production'));
+    expect(instances.get('')).toBe(instances.get('production'));
+  });
+
+  it('sends each instance its own domain and token', async () => {
+    const instances = manager();
+
+    const production = await instances.get().getEntity<{ Url: string }>('Bug', 7);
+    const sandbox = await instances.get('sandbox').getEntity<{ Url: string }>('Bug', 7);
+
+    expect(production.Url).toMatch(/^https:\/\/acme\.tpondemand\.com\/api\/v1\/Bugs\/7\?/);
+    expect(sandbox.Url).toMatch(/^https:\/\/acme-sandbox\.tpondemand\.com\/api\/v1\/Bugs\/7\?/);
+    const tokens = fetchMock.mock.calls.map(([url, init]) => [
+      new URL(url).host,
+      init.headers.Authorization,
+    ]);
+    expect(tokens).toContainEqual(['acme.tpondemand.com', 'Bearer production-token']);
+    expect(tokens).toContainEqual(['acme-sandbox.tpondemand.com', 'Bearer sandbox-token']);
+    expect(tokens).not.toContainEqual(['acme-sandbox.tpondemand.com', 'Bearer production-token']);
+  });
+
+  it('rejects unknown instances with the configured names', () => {
+    const error = rejection(() => manager().get('staging'));
+
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain("Unknown instance: 'staging'. Configured instances: production, sandbox");
+  });
+
+  it('requires at least one instance and a configured default', () => {
+    expect(rejection(() => new TPInstanceManager({ instances: {}, defaultInstance: 'default' })).message)
+      .toContain('No Target Process instances configured');
+    expect(rejection(() => new TPInstanceManager({
+      instances: { sandbox: { domain: 'acme-sandbox.tpondemand.com', accessToken: 'token' } },
+      defaultInstance: 'production',
+    })).message).toContain("Default instance 'production' is not configured. Configured instances: sandbox");
+  });
+
+  it('describes every instance without its credentials', () => {
+    const described = manager().describe();
+
+    expect(described.map(({ name, domain, isDefault }) => ({ name, domain, isDefault }))).toEqual([
+      { name: 'production', domain: 'acme.tpondemand.com', isDefault: true },
+      { name: 'sandbox', domain: 'acme-sandbox.tpondemand.com', isDefault: false },
+    ]);
+    expect(JSON.stringify(described)).not.toContain('token');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { setTimeout } from 'node:timers/promises';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RateLimitConfig, RequestLimiter } from '../api/client/tp.limiter.js';
+
+describe('RequestLimiter', () => {
+  it.each<[string, RateLimitConfig, string]>([
+    ['a zero rate', { requestsPerSecond: 0 }, 'requestsPerSecond must be greater than 0'],
+    ['a negative rate', { requestsPerSecond: -1 }, 'requestsPerSecond must be greater than 0'],
+    ['an empty bucket', { burst: 0 }, 'burst must be at least 1'],
+    ['no request slots', { maxConcurrent: 0 }, 'maxConcurrent must be a whole number of at least 1'],
+    ['a fractional slot count', { maxConcurrent: 1.5 }, 'maxConcurrent must be a whole number of at least 1'],
+  ])('rejects %s', (_label, config, message) => {
+    expect(() => new RequestLimiter(config)).toThrow(McpError);
+    expect(() => new RequestLimiter(config)).toThrow(message);
+  });
+
+  it('queues requests beyond maxConcurrent until a slot frees up', async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2 });
+    let open: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => { open = resolve; });
+    let active = 0;
+    let peak = 0;
+    const operation = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await gate;
+      active--;
+    };
+
+    const runs = Promise.all(Array.from({ length: 6 }, () => limiter.run(operation)));
+    await setTimeout(20);
+    expect(limiter.diagnostics()).toMatchObject({ active: 2, queued: 4 });
+
+    open();
+    await runs;
+    expect(peak).toBe(2);
+    expect(limiter.diagnostics()).toMatchObject({ totalRequests: 6, active: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { pickCandidate, referenceId, referenceQuery } from '../api/client/tp.resolver.js';
+
+describe('referenceId', () => {
+  it('treats numbers and numeric strings as IDs', () => {
+    expect(referenceId(42)).toBe(42);
+    expect(referenceId(' 42 ')).toBe(42);
+  });
+
+  it('treats anything else as a name', () => {
+    expect(referenceId('Jane Doe')).toBeUndefined();
+    expect(referenceId('42a')).toBeUndefined();
+    expect(referenceId('-1')).toBeUndefined();
+  });
+});
+
+describe('referenceQuery', () => {
+  it('matches users by email, login or full name among active users', () => {
+    expect(referenceQuery('User', ' Jane van Doe ')).toEqual({
+      collection: 'Users',
+      where: "((Email eq 'Jane van Doe') or (Login eq 'Jane van Doe') or ((FirstName eq 'Jane') and (LastName eq 'van Doe'))) and (IsActive eq 'true')",
+      include: '[Id,FirstName,LastName,Login,Email]',
+    });
+    expect(referenceQuery('User', 'jdoe').where).toBe("((Email eq 'jdoe') or (Login eq 'jdoe')) and (IsActive eq 'true')");
+  });
+
+  it('matches projects by name or abbreviation and escapes quotes', () => {
+    expect(referenceQuery('Project', "O'Brien").where).toBe("(Name eq 'O''Brien') or (Abbreviation eq 'O''Brien')");
+  });
+
+  it('narrows states to the entity type and process of the scope', () => {
+    expect(referenceQuery('EntityState', 'Open', { entityType: 'Bug', processId: 12 }).where)
+      .toBe("(Name eq 'Open') and (EntityType.Name eq 'Bug') and (Process.Id eq 12)");
+    expect(referenceQuery('EntityState', 'Open').where).toBe("Name eq 'Open'");
+  });
+});
+
+describe('pickCandidate', () => {
+  it('returns the ID of the only match', () => {
+    expect(pickCandidate('Team', 'Core', [{ Id: 5, Name: 'Core' }], false)).toBe(5);
+  });
+
+  it('rejects a name nothing matches', () => {
+    expect(() => pickCandidate('Team', 'Nope', [], false)).toThrow("No Team matches 'Nope'");
+  });
+
+  it('lists every match of an ambiguous name so an ID can be picked', () => {
+    const candidates = [
+      { Id: 1, FirstName: 'Jane', LastName: 'Doe', Email: 'jane@acme.com' },
+      { Id: 2, FirstName: 'Jane', LastName: 'Doe', Login: 'jdoe2' },
+    ];
+
+    let error: unknown;
+    try {
+      pickCandidate('User', 'Jane Doe', candidates, true);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect((error as McpError).message).toContain(
+      "'Jane Doe' matches several User records: Jane Doe (#1, jane@acme.com); Jane Doe (#2, jdoe2); .... Pass the ID instead"
+    );
+  });
+
+  it('tells ambiguous states apart by entity type and process', () => {
+    const candidates = [
+      { Id: 10, Name: 'Open', EntityType: { Name: 'Bug' }, Process: { Name: 'Scrum' } },
+      { Id: 20, Name: 'Open', EntityType: { Name: 'Bug' }, Process: { Name: 'Kanban' } },
+    ];
+
+    expect(() => pickCandidate('EntityState', 'Open', candidates, false))
+      .toThrow("'Open' matches several EntityState records: Open (#10, Bug, Scrum); Open (#20, Bug, Kanban). Pass the ID instead");
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import fetch, { FetchError } from 'node-fetch';
+import { setTimeout } from 'node:timers/promises';
+import { URL } from 'node:url';
+import { TPService } from '../api/client/tp.service.js';
+import { CreateCommentRequest, UpdateEntityRequest } from '../api/client/api.types.js';
+
+jest.mock('node-fetch', () => ({
+  __esModule: true,
+  default: jest.fn(),
+  // Same shape as node-fetch's FetchError, which takes the code from the system error
+  FetchError: class FetchError extends Error {
+    code?: string;
+
+    constructor(message: string, readonly type: string, systemError?: { code?: string }) {
+      super(message);
+      this.code = systemError?.code;
+    }
+  },
+}));
+// Retry delays are recorded instead of waited for
+jest.mock('node:timers/promises', () => ({ setTimeout: jest.fn(async () => undefined) }));
+
+interface Reply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+const fetchMock = fetch as unknown as jest.Mock<(url: string, init: { method: string }) => Promise<unknown>>;
+const sleep = setTimeout as unknown as jest.Mock<(delay: number) => Promise<void>>;
+
+const ENTITY_TYPES = { Items: [{ Name: 'Bug' }, { Name: 'UserStory' }, { Name: 'EntityState' }] };
+
+function response({ status = 200, body = {}, headers = {} }: Reply) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `Status ${status}`,
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+/**
+ * Answer API requests with the given replies in order; metadata requests always succeed
+ */
+function reply(...replies: Reply[]): void {
+  fetchMock.mockImplementation(async (url) => {
+    if (url.includes('/Index/meta')) {
+      return response({ body: ENTITY_TYPES });
+    }
+    return response(replies.length > 1 ? replies.shift()! : replies[0]);
+  });
+}
+
+function apiCalls(): string[] {
+  return fetchMock.mock.calls.map(([url]) => url).filter(url => !url.includes('/Index/meta'));
+}
+
+let service: TPService;
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  sleep.mockClear();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  service = new TPService({
+    domain: 'acme.tpondemand.com',
+    accessToken: 'secret-token',
+    retry: { maxRetries: 3, delayMs: 1000, backoffFactor: 2, maxRetryAfterMs: 10000 },
+  });
+});
+
+describe('TPService', () => {
+  describe('retries', () => {
+    it('waits as long as Retry-After asks before repeating a throttled request', async () => {
+      reply({ status: 429, headers: { 'Retry-After': '4' } }, { body: { Id: 7 } });
+
+      expect(await service.getEntity('Bug', 7)).toEqual({ Id: 7 });
+      expect(apiCalls()).toHaveLength(2);
+      expect(sleep.mock.calls.map(([delay]) => delay)).toEqual([4000]);
+    });
+
+    it('backs off exponentially with jitter without Retry-After', async () => {
+      reply({ status: 503 }, { status: 502 }, { body: { Id: 7 } });
+
+      await service.getEntity('Bug', 7);
+
+      const [first, second] = sleep.mock.calls.map(([delay]) => delay);
+      expect(first).toBeGreaterThanOrEqual(500);
+      expect(first).toBeLessThanOrEqual(1000);
+      expect(second).toBeGreaterThanOrEqual(1000);
+      expect(second).toBeLessThanOrEqual(2000);
+    });
+
+    it('gives up at once when Retry-After exceeds the longest accepted wait', async () => {
+      reply({ status: 429, headers: { 'Retry-After': '60' } });
+
+      await expect(service.getEntity('Bug', 7)).rejects.toThrow('429');
+      expect(apiCalls()).toHaveLength(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('reports the last error after the final attempt', async () => {
+      reply({ status: 500, body: { Message: 'Server exploded' } });
+
+      await expect(service.getEntity('Bug', 7)).rejects.toThrow('after 3 attempts');
+      expect(apiCalls()).toHaveLength(3);
+    });
+
+    it('does not retry client errors', async () => {
+      reply({ status: 400, body: { Message: 'Bad where' } });
+
+      await expect(service.getEntity('Bug', 7)).rejects.toBeInstanceOf(McpError);
+      expect(apiCalls()).toHaveLength(1);
+    });
+
+    it('retries network errors on reads', async () => {
+      fetchMock.mockImplementation(async (url) => {
+        if (url.includes('/Index/meta')) {
+          return response({ body: ENTITY_TYPES });
+        }
+        if (apiCalls().length === 1) {
+          throw new FetchError('socket hang up', 'system', { code: 'ECONNRESET' });
+        }
+        return response({ body: { Id: 7 } });
+      });
+
+      expect(await service.getEntity('Bug', 7)).toEqual({ Id: 7 });
+      expect(apiCalls()).toHaveLength(2);
+    });
+
+    it('repeats a create only when it was throttled', async () => {
+      const comment = { Description: 'Hi', General: { Id: 7 } } as CreateCommentRequest;
+
+      reply({ status: 500 });
+      await expect(service.createComment(comment)).rejects.toThrow('500');
+      expect(apiCalls()).toHaveLength(1);
+
+      fetchMock.mockClear();
+      reply({ status: 429, headers: { 'Retry-After': '1' } }, { body: { Id: 99 } });
+      expect(await service.createComment(comment)).toEqual({ Id: 99 });
+      expect(apiCalls()).toHaveLength(2);
+    });
+  });
+
+  describe('response cache', () => {
+    it('answers repeated reads from the cache and reloads an entity after updating it', async () => {
+      reply({ body: { Id: 7, Name: 'Crash' } });
+
+      await service.getEntity('Bug', 7);
+      await service.getEntity('Bug', 7);
+      expect(apiCalls()).toHaveLength(1);
+
+      await service.updateEntity('Bug', 7, { Name: 'Crash on login' } as UpdateEntityRequest);
+      await service.getEntity('Bug', 7);
+      expect(fetchMock.mock.calls.filter(([url]) => !url.includes('/Index/meta')).map(([, init]) => init.method))
+        .toEqual(['GET', 'POST', 'GET']);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('sends one request for identical concurrent reads', async () => {
+      reply({ body: { Id: 7 } });
+
+      const results = await Promise.all([service.getEntity('Bug', 7), service.getEntity('Bug', 7), service.getEntity('Bug', 7)]);
+
+      expect(results).toEqual([{ Id: 7 }, { Id: 7 }, { Id: 7 }]);
+      expect(apiCalls()).toHaveLength(1);
+      expect(service.getDiagnostics().coalescing.coalesced).toBe(2);
+    });
+  });
+
+  describe('workflow states', () => {
+    it("reads a project's own process rather than the process of a parent project", async () => {
+      fetchMock.mockImplementation(async (url) => {
+        if (url.includes('/Index/meta')) {
+          return response({ body: { Items: [{ Name: 'Project' }] } });
+        }
+        return url.includes('/Projects/')
+          ? response({ body: { Id: 3, EntityState: { Id: 1, Name: 'Active' }, Process: { Id: 12 } } })
+          : response({ body: { Items: [{ Id: 1, Name: 'Active' }] } });
+      });
+
+      const { states } = await service.getEntityStates('Project', 3);
+
+      const [entityUrl, statesUrl] = apiCalls().map(url => new URL(url));
+      expect(entityUrl.searchParams.get('include')).toBe('[Id,EntityState[Id,Name],Process[Id]]');
+      expect(statesUrl.searchParams.get('where')).toBe("(Process.Id eq 12) and (EntityType.Name eq 'Project')");
+      expect(states).toEqual([{ Id: 1, Name: 'Active' }]);
+    });
+
+    it('reads the current state and the workflow past the response cache', async () => {
+      fetchMock.mockImplementation(async (url) => {
+        if (url.includes('/Index/meta')) {
+          return response({ body: ENTITY_TYPES });
+        }
+        return url.includes('/Bugs/')
+          ? response({ body: { Id: 7, EntityState: { Id: 1, Name: 'Open' }, Project: { Process: { Id: 12 } } } })
+          : response({ body: { Items: [{ Id: 1, Name: 'Open' }] } });
+      });
+
+      await service.getEntityStates('Bug', 7);
+      await service.getEntityStates('Bug', 7);
+
+      expect(apiCalls()).toHaveLength(4);
+    });
+
+    it('fails for an entity without a process instead of reading every workflow', async () => {
+      reply({ body: { Id: 7, EntityState: { Id: 1, Name: 'Open' }, Project: {} } });
+
+      await expect(service.getEntityStates('Bug', 7)).rejects.toThrow('Bug 7 has no process');
+      expect(apiCalls()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TransitionEntityTool } from '../tools/entity/transition.tool.js';
+import { TPService } from '../api/client/tp.service.js';
+
+const OPEN = { Id: 1, Name: 'Open', NextStates: { Items: [{ Id: 2, Name: 'In Progress' }] } };
+const IN_PROGRESS = { Id: 2, Name: 'In Progress', NextStates: { Items: [{ Id: 3, Name: 'Done' }] } };
+const DONE = { Id: 3, Name: 'Done', IsFinal: true, NextStates: { Items: [] } };
+
+let service: {
+  getEntityStates: jest.Mock<(type: string, id: number) => Promise<unknown>>;
+  updateEntity: jest.Mock<(type: string, id: number, data: unknown) => Promise<unknown>>;
+  normalize: (value: unknown) => unknown;
+};
+let tool: TransitionEntityTool;
+
+function currentState(current?: { Id: number; Name?: string }): void {
+  service.getEntityStates.mockResolvedValue({ current, states: [OPEN, IN_PROGRESS, DONE] });
+}
+
+async function result(args: Record<string, unknown>) {
+  return JSON.parse((await tool.execute(args)).content[0].text);
+}
+
+async function rejection(args: Record<string, unknown>): Promise<McpError> {
+  const error = await tool.execute(args).then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(McpError);
+  return error as McpError;
+}
+
+beforeEach(() => {
+  service = {
+    getEntityStates: jest.fn(),
+    updateEntity: jest.fn(async (_type, id) => ({ Id: id, EntityState: { Id: 2, Name: 'In Progress' } })),
+    normalize: (value) => value,
+  };
+  tool = new TransitionEntityTool(service as unknown as TPService);
+});
+
+describe('TransitionEntityTool', () => {
+  it('moves to a next state of the current one, matching the name case-insensitively', async () => {
+    currentState({ Id: 1, Name: 'Open' });
+
+    expect(await result({ type: 'Bug', id: 7, state: ' in progress ' })).toMatchObject({ changed: true, from: 'Open', to: 'In Progress' });
+    expect(service.updateEntity).toHaveBeenCalledWith('Bug', 7, { EntityState: { Id: 2 } });
+  });
+
+  it('rejects a move the workflow does not allow with the valid next states', async () => {
+    currentState({ Id: 1, Name: 'Open' });
+
+    const error = await rejection({ type: 'Bug', id: 7, state: 'Done' });
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain("cannot move from 'Open' to 'Done'. Valid next states: In Progress");
+    expect(service.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('leaves an entity that is already in the state unchanged', async () => {
+    currentState({ Id: 2, Name: 'In Progress' });
+
+    expect(await result({ type: 'Bug', id: 7, state: 'In Progress' })).toMatchObject({ changed: false });
+    expect(service.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('rejects a state the workflow does not have with its states', async () => {
+    currentState({ Id: 1, Name: 'Open' });
+
+    const error = await rejection({ type: 'Bug', id: 7, state: 'Shipped' });
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain("has no state 'Shipped'. States: Open, In Progress, Done");
+    expect(service.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('rejects a move from a current state outside the workflow', async () => {
+    currentState({ Id: 9, Name: 'Legacy' });
+
+    expect((await rejection({ type: 'Bug', id: 7, state: 'Done' })).message).toContain("current state 'Legacy' of Bug 7 is not in its workflow");
+
+    currentState(undefined);
+    expect((await rejection({ type: 'Bug', id: 7, state: 'Done' })).message).toContain('current state of Bug 7 is not in its workflow');
+    expect(service.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('allows any move from a known state without next states', async () => {
+    currentState({ Id: 3, Name: 'Done' });
+
+    expect(await result({ type: 'Bug', id: 7, state: 'Open' })).toMatchObject({ changed: true, from: 'Done', to: 'Open' });
+  });
+});
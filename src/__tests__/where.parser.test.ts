@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { normalizeWhereClause, parseWhere, serializeWhereV2 } from '../api/query/where.parser.js';
+
+function syntaxError(where: string): string {
+  try {
+    parseWhere(where);
+  } catch (error) {
+    expect(error).toBeInstanceOf(McpError);
+    return (error as McpError).message;
+  }
+  throw new Error(`Expected '${where}' to be rejected`);
+}
+
+describe('where parser', () => {
+  describe('quoting and escaping', () => {
+    it('unescapes doubled quotes and escapes them again', () => {
+      expect(parseWhere("Name eq 'it''s'")).toEqual({
+        kind: 'comparison',
+        field: 'Name',
+        operator: 'eq',
+        value: { kind: 'string', value: "it's" },
+      });
+      expect(normalizeWhereClause("Name eq 'it''s'")).toBe("Name eq 'it''s'");
+    });
+
+    it('accepts double-quoted strings and serializes them with single quotes', () => {
+      expect(normalizeWhereClause('Name eq "say ""hi"" to Bob\'s team"')).toBe("Name eq 'say \"hi\" to Bob''s team'");
+    });
+
+    it('quotes bare words and booleans', () => {
+      expect(normalizeWhereClause('EntityState.Name eq Open')).toBe("EntityState.Name eq 'Open'");
+      expect(normalizeWhereClause('EntityState.IsFinal eq false')).toBe("EntityState.IsFinal eq 'false'");
+    });
+
+    it('keeps numbers and macros unquoted', () => {
+      expect(normalizeWhereClause('Effort gte 2.5 and CreateDate gt @Today-7')).toBe('(Effort gte 2.5) and (CreateDate gt @Today-7)');
+    });
+  });
+
+  describe('in, not and is null', () => {
+    it('parses in and not in lists with either bracket style', () => {
+      expect(normalizeWhereClause("Id in (1, 2, 3)")).toBe('Id in (1,2,3)');
+      expect(normalizeWhereClause("EntityState.Name not in ['Done', 'Closed']")).toBe("EntityState.Name not in ('Done','Closed')");
+    });
+
+    it('parses is null and is not null', () => {
+      expect(parseWhere('AssignedUser is null')).toEqual({ kind: 'null', field: 'AssignedUser', negated: false });
+      expect(normalizeWhereClause('Release is not null')).toBe('Release is not null');
+    });
+
+    it('pushes not down to the conditions', () => {
+      expect(normalizeWhereClause("not (Name eq 'a' or Effort gt 3)")).toBe("(Name ne 'a') and (Effort lte 3)");
+      expect(normalizeWhereClause('not Id in (1,2)')).toBe('Id not in (1,2)');
+      expect(normalizeWhereClause('not not Release is null')).toBe('Release is null');
+      expect(normalizeWhereClause("not Name contains 'x'")).toBe("Name not contains 'x'");
+    });
+
+    it('rejects comparisons with null', () => {
+      expect(syntaxError('Release eq null')).toContain("Use 'is null' or 'is not null' instead of 'eq null' at position 11");
+    });
+  });
+
+  describe('error positions', () => {
+    it('points at an unterminated string', () => {
+      expect(syntaxError("Name eq 'open")).toContain('Unterminated string at position 8');
+    });
+
+    it('points at an unexpected character', () => {
+      expect(syntaxError('Id eq 1 & Effort gt 2')).toContain("Unexpected character '&' at position 8");
+    });
+
+    it('points at a missing operator', () => {
+      expect(syntaxError('Name Open')).toContain("after 'Name' but found 'Open' at position 5");
+    });
+
+    it('points at an unclosed group', () => {
+      expect(syntaxError('(Id eq 1 or Id eq 2')).toContain("Expected ')' to close the group opened at position 0 but found end of expression at position 19");
+    });
+
+    it('points at unquoted values with spaces', () => {
+      expect(syntaxError('EntityState.Name eq Ready For Testing')).toContain("Unexpected 'For'; expected 'and', 'or' or end of expression (quote values that contain spaces) at position 26");
+    });
+
+    it('marks the position under the clause', () => {
+      expect(syntaxError('Id eq')).toMatch(/\n {2}Id eq\n {7}\^$/);
+    });
+
+    it('rejects an empty clause', () => {
+      expect(syntaxError('   ')).toContain('Empty where clause');
+    });
+  });
+
+  describe('precedence', () => {
+    it('binds and tighter than or', () => {
+      expect(parseWhere('Id eq 1 or Id eq 2 and Id eq 3')).toEqual({
+        kind: 'or',
+        children: [
+          { kind: 'comparison', field: 'Id', operator: 'eq', value: { kind: 'number', value: 1 } },
+          {
+            kind: 'and',
+            children: [
+              { kind: 'comparison', field: 'Id', operator: 'eq', value: { kind: 'number', value: 2 } },
+              { kind: 'comparison', field: 'Id', operator: 'eq', value: { kind: 'number', value: 3 } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('wraps every operand of and and or in parentheses', () => {
+      expect(normalizeWhereClause('Id eq 1 or Id eq 2 and Id eq 3')).toBe('(Id eq 1) or ((Id eq 2) and (Id eq 3))');
+      expect(normalizeWhereClause('(Id eq 1 or Id eq 2) and Id eq 3')).toBe('((Id eq 1) or (Id eq 2)) and (Id eq 3)');
+    });
+
+    it('keeps the grouping when serializing to API v2', () => {
+      expect(serializeWhereV2(parseWhere("(Id eq 1 or Id eq 2) and Name eq 'x'"))).toBe('((id==1 or id==2) and name=="x")');
+      expect(serializeWhereV2(parseWhere('CreateDate gt @Today'))).toBeNull();
+    });
+  });
+});
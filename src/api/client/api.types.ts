@@ -5,6 +5,42 @@ export interface ApiResponse<T> {
   Next?: string;
 }
 
+export interface SearchPage<T> {
+  items: T[];
+  skip: number;
+  take: number;
+  hasMore: boolean;
+  /** Offset of the next page, when there is one */
+  nextSkip?: number;
+  /** Total number of matching items, when known */
+  totalCount?: number;
+}
+
+/**
+ * API v2 query parameters; expressions use v2 syntax
+ */
+export interface V2Query {
+  select?: string;
+  where?: string;
+  result?: string;
+  orderBy?: string;
+  take?: number;
+  skip?: number;
+}
+
+export interface V2Response<T> {
+  items: T[];
+  next?: string;
+}
+
+export interface V2QueryResult<T> {
+  /** Projected items, for queries without a result expression */
+  items?: T[];
+  /** Aggregate value, for queries with a result expression */
+  result?: T;
+  hasMore: boolean;
+}
+
 export interface ApiEntityResponse<T extends BaseEntityData> {
   data: T;
 }
@@ -21,6 +57,16 @@ export interface CreateEntityRequest {
   AssignedUser?: {
     Id: number;
   };
+  Priority?: {
+    Id: number;
+  };
+  CustomFields?: CustomFieldRequest[];
+}
+
+export interface CustomFieldRequest {
+  Name: string;
+  /** null clears the field */
+  Value: unknown;
 }
 
 export interface IEntityReference {
@@ -32,6 +78,7 @@ export interface UpdateEntityRequest {
   Description?: string;
   EntityState?: IEntityReference;
   AssignedUser?: IEntityReference;
+  Priority?: IEntityReference;
   UserStory?: IEntityReference | null;
   Feature?: IEntityReference | null;
   Epic?: IEntityReference | null;
@@ -45,6 +92,7 @@ export interface UpdateEntityRequest {
   Effort?: number;
   EffortCompleted?: number;
   EffortToDo?: number;
+  CustomFields?: CustomFieldRequest[];
 }
 
 export interface CreateAssignmentRequest {
@@ -74,6 +122,12 @@ export interface CreateCommentRequest {
   General: {
     Id: number;
   };
+  /** Comment this one replies to */
+  ParentId?: number;
+}
+
+export interface UpdateCommentRequest {
+  Description: string;
 }
 
 export interface CreateRelationRequest {
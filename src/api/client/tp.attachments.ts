@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+export interface AttachmentConfig {
+  /** Local directory that file paths are resolved against and confined to; without it file paths are refused */
+  directory?: string;
+  /** Largest file add_attachment uploads (default: 10 MB) */
+  maxUploadBytes?: number;
+  /** Largest attachment get_attachment downloads (default: 25 MB) */
+  maxDownloadBytes?: number;
+  /** Largest text attachment returned inline instead of saved to a file (default: 100 KB) */
+  maxInlineBytes?: number;
+}
+
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_INLINE_BYTES = 100 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.html': 'text/html',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.har': 'application/json',
+};
+
+export type ResolvedAttachmentConfig = Required<Omit<AttachmentConfig, 'directory'>> & Pick<AttachmentConfig, 'directory'>;
+
+export function resolveAttachmentConfig(config: AttachmentConfig = {}): ResolvedAttachmentConfig {
+  return {
+    directory: config.directory ? path.resolve(config.directory) : undefined,
+    maxUploadBytes: config.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES,
+    maxDownloadBytes: config.maxDownloadBytes ?? DEFAULT_MAX_DOWNLOAD_BYTES,
+    maxInlineBytes: config.maxInlineBytes ?? DEFAULT_MAX_INLINE_BYTES,
+  };
+}
+
+/**
+ * Real path of a file that may not exist yet: the nearest existing ancestor is
+ * resolved through symlinks and the missing part is appended
+ */
+async function realTarget(resolved: string): Promise<string> {
+  const missing: string[] = [];
+  let current = resolved;
+  while (true) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as { code?: string }).code !== 'ENOENT' || parent === current) {
+        throw error;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a tool-supplied path inside the configured attachments directory, so
+ * that a caller cannot read or write files elsewhere on the server. Symlinks are
+ * followed before the check; without a configured directory no path is allowed.
+ */
+export async function resolveLocalPath(directory: string | undefined, filePath: string): Promise<string> {
+  if (!directory) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Local file paths are disabled: no attachments directory is configured (TP_ATTACHMENTS_DIR or attachments.directory)'
+    );
+  }
+
+  const root = await fs.realpath(directory).catch(() => {
+    throw new McpError(ErrorCode.InvalidParams, `Attachments directory ${directory} does not exist`);
+  });
+  const target = await realTarget(path.resolve(root, filePath));
+  const relative = path.relative(root, target);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Path '${filePath}' is outside the attachments directory ${directory}`
+    );
+  }
+  return target;
+}
+
+export function guessMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+export function isTextMimeType(mimeType: string | undefined): boolean {
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/')
+    || ['application/json', 'application/xml', 'application/yaml', 'application/x-yaml', 'image/svg+xml'].includes(type)
+    || type.endsWith('+json')
+    || type.endsWith('+xml');
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import { URL } from 'node:url';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Authentication modes supported by TPService
+ *
+ * - token:          personal access token sent in a request header (default)
+ * - basic:          login/password sent as HTTP Basic auth
+ * - serviceAccount: service account token read from a file (re-read when the file changes)
+ * - query:          legacy access_token query parameter, for servers that do not accept the header
+ */
+export type TPAuthConfig =
+  | { type: 'token'; token?: string; headerName?: string; scheme?: string }
+  | { type: 'basic'; login: string; password: string }
+  | { type: 'serviceAccount'; tokenFile: string; headerName?: string; scheme?: string }
+  | { type: 'query'; token?: string };
+
+export interface TPAuthProvider {
+  /**
+   * Add credentials to an outgoing request
+   */
+  apply(url: URL, headers: Record<string, string>): void;
+
+  /**
+   * Values that must never appear in logs or error messages
+   */
+  secrets(): string[];
+}
+
+function secretVariants(secret: string): string[] {
+  return [secret, encodeURIComponent(secret)];
+}
+
+class HeaderTokenAuth implements TPAuthProvider {
+  constructor(
+    private readonly getToken: () => string,
+    private readonly headerName: string = 'Authorization',
+    private readonly scheme: string = 'Bearer'
+  ) {}
+
+  apply(_url: URL, headers: Record<string, string>): void {
+    const token = this.getToken();
+    headers[this.headerName] = this.scheme ? `${this.scheme} ${token}` : token;
+  }
+
+  secrets(): string[] {
+    return secretVariants(this.getToken());
+  }
+}
+
+class BasicAuth implements TPAuthProvider {
+  private readonly encoded: string;
+
+  constructor(private readonly login: string, private readonly password: string) {
+    this.encoded = Buffer.from(`${login}:${password}`).toString('base64');
+  }
+
+  apply(_url: URL, headers: Record<string, string>): void {
+    headers['Authorization'] = `Basic ${this.encoded}`;
+  }
+
+  secrets(): string[] {
+    return [...secretVariants(this.password), this.encoded];
+  }
+}
+
+class QueryTokenAuth implements TPAuthProvider {
+  constructor(private readonly token: string) {}
+
+  apply(url: URL): void {
+    url.searchParams.set('access_token', this.token);
+  }
+
+  secrets(): string[] {
+    return secretVariants(this.token);
+  }
+}
+
+/**
+ * Reads a token from a file, reloading it when the file's modification time changes
+ */
+class TokenFile {
+  private token = '';
+  private mtimeMs = -1;
+
+  constructor(private readonly path: string) {
+    this.read();
+  }
+
+  read(): string {
+    try {
+      const { mtimeMs } = fs.statSync(this.path);
+      if (mtimeMs !== this.mtimeMs) {
+        this.token = fs.readFileSync(this.path, 'utf8').trim();
+        this.mtimeMs = mtimeMs;
+      }
+    } catch (error) {
+      if (!this.token) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to read service account token file ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      // Keep using the last token if the file is temporarily unavailable
+    }
+
+    if (!this.token) {
+      throw new McpError(ErrorCode.InternalError, `Service account token file ${this.path} is empty`);
+    }
+
+    return this.token;
+  }
+}
+
+/**
+ * Create the auth provider for a service configuration. Without an explicit
+ * auth section the configured access token is sent in a header.
+ */
+export function createAuthProvider(auth: TPAuthConfig | undefined, accessToken: string | undefined): TPAuthProvider {
+  const config: TPAuthConfig = auth || { type: 'token' };
+
+  switch (config.type) {
+    case 'token': {
+      const token = config.token || accessToken;
+      if (!token) {
+        throw new McpError(ErrorCode.InternalError, 'Token auth requires an access token');
+      }
+      return new HeaderTokenAuth(() => token, config.headerName, config.scheme);
+    }
+    case 'basic':
+      if (!config.login || !config.password) {
+        throw new McpError(ErrorCode.InternalError, 'Basic auth requires login and password');
+      }
+      return new BasicAuth(config.login, config.password);
+    case 'serviceAccount': {
+      const tokenFile = new TokenFile(config.tokenFile);
+      return new HeaderTokenAuth(() => tokenFile.read(), config.headerName, config.scheme);
+    }
+    case 'query': {
+      const token = config.token || accessToken;
+      if (!token) {
+        throw new McpError(ErrorCode.InternalError, 'Query auth requires an access token');
+      }
+      return new QueryTokenAuth(token);
+    }
+    default:
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Unknown auth type: '${(config as { type: string }).type}'. Supported types are: token, basic, serviceAccount, query`
+      );
+  }
+}
+
+/**
+ * Replace every known secret in a message with a placeholder
+ */
+export function scrubSecrets(message: string, secrets: string[]): string {
+  return secrets
+    .filter(secret => secret.length >= 4)
+    .sort((a, b) => b.length - a.length)
+    .reduce((text, secret) => text.split(secret).join('***'), message);
+}
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import path from 'path';
+import { setTimeout } from 'node:timers';
+
+export interface ResponseCacheConfig {
+  /** Cache API responses (default: true) */
+  enabled?: boolean;
+  /** TTL for types without an entry in ttlSeconds (default: 30) */
+  defaultTtlSeconds?: number;
+  /** Per-type TTLs, e.g. { "UserStory": 60, "meta": 3600 }. "meta" is the metadata index. */
+  ttlSeconds?: Record<string, number>;
+  /** Upper bound on cached responses; the oldest are evicted first (default: 1000) */
+  maxEntries?: number;
+  /** JSON file that keeps the cache across restarts */
+  persistPath?: string;
+}
+
+export type CacheKind = 'get' | 'search' | 'meta';
+
+export interface CacheTags {
+  kind: CacheKind;
+  type: string;
+  /** Entity the entry is about: the entity itself for get, the owner for relation/assignment searches */
+  id?: number;
+}
+
+interface CacheEntry extends CacheTags {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  byType: Record<string, number>;
+  persistPath?: string;
+}
+
+export interface CacheFlushFilter {
+  type?: string;
+  id?: number;
+}
+
+const DEFAULT_TTL_SECONDS = 30;
+const DEFAULT_METADATA_TTL_SECONDS = 3600;
+const DEFAULT_MAX_ENTRIES = 1000;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * In-memory response cache with per-type TTLs, optionally persisted to disk.
+ *
+ * Entries are tagged with their entity type and ID so that mutations can drop
+ * everything that may show the changed entity: the entity itself and every
+ * cached search, since any list may contain it.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly enabled: boolean;
+  private readonly defaultTtlSeconds: number;
+  private readonly ttlSeconds: Record<string, number>;
+  private readonly maxEntries: number;
+  private readonly persistPath?: string;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Bumped on every invalidation */
+  private generation = 0;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.defaultTtlSeconds = config.defaultTtlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.ttlSeconds = { meta: DEFAULT_METADATA_TTL_SECONDS, ...config.ttlSeconds };
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.persistPath = config.persistPath;
+
+    if (this.enabled && this.persistPath) {
+      this.load();
+    }
+  }
+
+  /**
+   * Return the cached value for a key, or load, cache and return it
+   */
+  async getOrLoad<T>(
+    key: string,
+    tags: CacheTags,
+    loader: () => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled || this.ttlFor(tags.type) <= 0) {
+      return loader();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      return structuredClone(entry.value) as T;
+    }
+
+    this.misses++;
+    const generation = this.generation;
+    const value = await loader();
+    if (generation !== this.generation) {
+      // An invalidation happened while loading, so the response may already be stale
+      return value;
+    }
+    this.set(key, { ...tags, value: structuredClone(value), expiresAt: Date.now() + this.ttlFor(tags.type) * 1000 });
+    return value;
+  }
+
+  /**
+   * Drop entries that may show the given entity: the entity itself (under any type,
+   * since General IDs are shared) and all cached searches
+   */
+  invalidateEntity(id?: number): void {
+    this.generation++;
+    this.deleteWhere(entry => entry.kind === 'search' || (id !== undefined && entry.id === id));
+  }
+
+  /**
+   * Drop entries matching the filter; without a filter the whole cache is cleared
+   */
+  flush(filter: CacheFlushFilter = {}): number {
+    this.generation++;
+    return this.deleteWhere(entry =>
+      (filter.type === undefined || entry.type === filter.type) &&
+      (filter.id === undefined || entry.id === filter.id)
+    );
+  }
+
+  stats(): CacheStats {
+    this.evictExpired();
+    const byType: Record<string, number> = {};
+    for (const entry of this.entries.values()) {
+      byType[entry.type] = (byType[entry.type] || 0) + 1;
+    }
+
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      byType,
+      persistPath: this.persistPath,
+    };
+  }
+
+  private ttlFor(type: string): number {
+    return this.ttlSeconds[type] ?? this.defaultTtlSeconds;
+  }
+
+  private set(key: string, entry: CacheEntry): void {
+    // Re-insert so that Map order reflects age for eviction
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      this.evictExpired();
+      for (const oldest of this.entries.keys()) {
+        if (this.entries.size <= this.maxEntries) {
+          break;
+        }
+        this.entries.delete(oldest);
+      }
+    }
+
+    this.schedulePersist();
+  }
+
+  private deleteWhere(predicate: (entry: CacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.invalidations += removed;
+      this.schedulePersist();
+    }
+    return removed;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.persistPath!)) {
+        return;
+      }
+      const stored = JSON.parse(fs.readFileSync(this.persistPath!, 'utf8')) as Record<string, CacheEntry>;
+      for (const [key, entry] of Object.entries(stored)) {
+        this.entries.set(key, entry);
+      }
+      this.evictExpired();
+    } catch (error) {
+      console.error(`Ignoring unreadable cache file ${this.persistPath}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Write the cache to disk shortly after changes, batching bursts of updates
+   */
+  private schedulePersist(): void {
+    if (!this.persistPath || this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      try {
+        this.evictExpired();
+        fs.mkdirSync(path.dirname(this.persistPath!), { recursive: true });
+        fs.writeFileSync(this.persistPath!, JSON.stringify(Object.fromEntries(this.entries)));
+      } catch (error) {
+        console.error(`Failed to write cache file ${this.persistPath}:`, error instanceof Error ? error.message : String(error));
+      }
+    }, PERSIST_DELAY_MS);
+    // Do not keep the process alive just to write the cache
+    this.persistTimer.unref();
+  }
+}
@@ -0,0 +1,46 @@
+export interface CoalescingDiagnostics {
+  /** Distinct reads currently in flight */
+  inFlight: number;
+  /** Reads that joined an identical in-flight read instead of sending their own request */
+  coalesced: number;
+}
+
+/**
+ * Shares one in-flight read between concurrent callers with the same key,
+ * so parallel identical requests result in a single HTTP call
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private coalesced = 0;
+
+  async run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      // Every caller gets its own copy, so one cannot modify another's result
+      return structuredClone(await pending) as T;
+    }
+
+    const promise: Promise<T> = operation().finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Stop sharing reads that started before a mutation; later callers send a fresh request
+   */
+  clear(): void {
+    this.inFlight.clear();
+  }
+
+  diagnostics(): CoalescingDiagnostics {
+    return {
+      inFlight: this.inFlight.size,
+      coalesced: this.coalesced,
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CustomFieldRequest } from './api.types.js';
+
+/**
+ * Custom field definition of a process and entity type, as returned by /CustomFields
+ */
+export interface CustomFieldDefinition {
+  Id: number;
+  Name: string;
+  /** Text, RichText, Number, Money, Date, CheckBox, DropDown, MultipleSelectionList, Entity, MultipleEntities, URL, TemplatedURL */
+  FieldType: string;
+  /** Options of DropDown and MultipleSelectionList fields, one per line */
+  Value?: string | null;
+  Required?: boolean;
+}
+
+export interface CustomFieldEntityInput {
+  id: number;
+  /** Entity type, e.g. UserStory; required for MultipleEntities fields */
+  type?: string;
+}
+
+export type CustomFieldScalarInput = string | number | boolean | CustomFieldEntityInput;
+
+export type CustomFieldInput = CustomFieldScalarInput | CustomFieldScalarInput[] | null;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function optionsOf(definition: CustomFieldDefinition): string[] {
+  return (definition.Value || '').split(/\r?\n/).map(option => option.trim()).filter(Boolean);
+}
+
+function isEntityInput(value: unknown): value is CustomFieldEntityInput {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as CustomFieldEntityInput).id === 'number';
+}
+
+function matchOption(definition: CustomFieldDefinition, value: unknown): string {
+  const options = optionsOf(definition);
+  const option = options.find(candidate => candidate.toLowerCase() === String(value).trim().toLowerCase());
+  if (option === undefined) {
+    throw new Error(`'${String(value)}' is not one of: ${options.join(', ')}`);
+  }
+  return option;
+}
+
+function toText(value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    throw new Error('expected a string');
+  }
+  return String(value);
+}
+
+/**
+ * Convert a tool-supplied value to the shape the API expects for the field type
+ */
+function coerceValue(definition: CustomFieldDefinition, value: Exclude<CustomFieldInput, null>): unknown {
+  switch (definition.FieldType) {
+    case 'Number':
+    case 'Money': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error('expected a number');
+      }
+      return number;
+    }
+
+    case 'CheckBox':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      throw new Error('expected true or false');
+
+    case 'Date': {
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        throw new Error('expected a date such as 2024-05-01 or 2024-05-01T14:30:00');
+      }
+      // A bare date is midnight in the server's time zone, not UTC
+      return DATE_ONLY.test(value) ? `${value}T00:00:00` : value;
+    }
+
+    case 'DropDown':
+      return matchOption(definition, value);
+
+    case 'MultipleSelectionList': {
+      const values = Array.isArray(value) ? value : toText(value).split(',');
+      return values.map(item => matchOption(definition, item)).join(',');
+    }
+
+    case 'Entity': {
+      if (typeof value === 'number') {
+        return { Id: value };
+      }
+      if (isEntityInput(value)) {
+        return value.type ? { Id: value.id, Kind: value.type } : { Id: value.id };
+      }
+      throw new Error('expected an entity ID or { id, type }');
+    }
+
+    case 'MultipleEntities': {
+      // Stored as "<id> <type>" pairs, e.g. "123 userstory,456 bug"
+      const values = Array.isArray(value) ? value : [value];
+      return values.map(item => {
+        if (!isEntityInput(item) || !item.type) {
+          throw new Error('expected a list of { id, type }');
+        }
+        return `${item.id} ${item.type.toLowerCase()}`;
+      }).join(',');
+    }
+
+    case 'URL':
+    case 'TemplatedURL': {
+      const url = toText(value);
+      return { Url: url, Label: url };
+    }
+
+    default:
+      return toText(value);
+  }
+}
+
+/**
+ * Validate custom field values against the definitions of the entity's process
+ * and convert them to the CustomFields array of a create or update request.
+ * On create, required fields must all be given.
+ */
+export function buildCustomFields(
+  type: string,
+  definitions: CustomFieldDefinition[],
+  values: Record<string, CustomFieldInput>,
+  options: { create?: boolean } = {}
+): CustomFieldRequest[] {
+  const byName = new Map(definitions.map(definition => [definition.Name.toLowerCase(), definition]));
+  const problems: string[] = [];
+  const fields: CustomFieldRequest[] = [];
+  const given = new Set<string>();
+
+  for (const [name, value] of Object.entries(values)) {
+    const definition = byName.get(name.toLowerCase());
+    if (!definition) {
+      problems.push(`unknown field '${name}'`);
+      continue;
+    }
+    given.add(definition.Name);
+
+    const empty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    if (empty) {
+      if (definition.Required) {
+        problems.push(`${definition.Name} is required and cannot be empty`);
+      } else {
+        fields.push({ Name: definition.Name, Value: null });
+      }
+      continue;
+    }
+
+    try {
+      fields.push({ Name: definition.Name, Value: coerceValue(definition, value) });
+    } catch (error) {
+      problems.push(`${definition.Name} (${definition.FieldType}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (options.create) {
+    definitions
+      .filter(definition => definition.Required && !given.has(definition.Name))
+      .forEach(definition => problems.push(`${definition.Name} is required`));
+  }
+
+  if (problems.length > 0) {
+    const available = definitions.map(definition => `${definition.Name} (${definition.FieldType}${definition.Required ? ', required' : ''})`);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid custom fields for ${type}: ${problems.join('; ')}. Available fields: ${available.join(', ') || 'none'}`
+    );
+  }
+
+  return fields;
+}
@@ -0,0 +1,79 @@
+export interface DeletionConfig {
+  /**
+   * delete: delete_entity may delete or archive (default);
+   * archive: hard deletion is disabled and delete_entity moves entities to archiveState
+   */
+  mode?: 'delete' | 'archive';
+  /** Workflow state entities are moved to when archived (default: Removed) */
+  archiveState?: string;
+}
+
+export interface DependentCount {
+  /** Number of records found, up to the count limit */
+  count: number;
+  /** True when there are more records than were counted */
+  more: boolean;
+}
+
+export interface DeletionImpact {
+  entity: {
+    Id: number;
+    ResourceType: string;
+    Name?: string;
+    EntityState?: string;
+  };
+  /** Records that reference the entity and are deleted or detached with it */
+  dependents: Record<string, DependentCount>;
+}
+
+export interface DependentQuery {
+  collection: string;
+  where: (id: number) => string;
+}
+
+/**
+ * Entities that other work items hang off, and the field that links them
+ */
+const CHILD_COLLECTIONS: Record<string, [collection: string, field: string][]> = {
+  UserStory: [['Tasks', 'UserStory'], ['Bugs', 'UserStory']],
+  Feature: [['UserStories', 'Feature'], ['Bugs', 'Feature']],
+  Epic: [['Features', 'Epic']],
+  PortfolioEpic: [['Epics', 'PortfolioEpic']],
+  Project: [['Features', 'Project'], ['UserStories', 'Project'], ['Tasks', 'Project'], ['Bugs', 'Project']],
+  Team: [['UserStories', 'Team'], ['Bugs', 'Team']],
+  Release: [['Features', 'Release'], ['UserStories', 'Release'], ['Bugs', 'Release']],
+  Iteration: [['UserStories', 'Iteration'], ['Bugs', 'Iteration']],
+  TeamIteration: [['UserStories', 'TeamIteration'], ['Bugs', 'TeamIteration']],
+  Program: [['Projects', 'Program']],
+};
+
+const ASSIGNABLE_TYPES = new Set(['UserStory', 'Bug', 'Task', 'Feature', 'Epic', 'PortfolioEpic', 'Request', 'TestPlan']);
+
+/**
+ * Entity types with a workflow state, the only ones that can be archived
+ */
+export const WORKFLOW_TYPES: ReadonlySet<string> = new Set([...ASSIGNABLE_TYPES, 'Impediment', 'Project']);
+
+/**
+ * Queries that find everything a deletion of the given entity type affects
+ */
+export function dependentQueries(type: string): DependentQuery[] {
+  const queries: DependentQuery[] = (CHILD_COLLECTIONS[type] || []).map(([collection, field]) => ({
+    collection,
+    where: id => `${field}.Id eq ${id}`,
+  }));
+
+  queries.push({ collection: 'Relations', where: id => `(Master.Id eq ${id}) or (Slave.Id eq ${id})` });
+  if (ASSIGNABLE_TYPES.has(type)) {
+    queries.push(
+      { collection: 'Assignments', where: id => `Assignable.Id eq ${id}` },
+      { collection: 'RoleEfforts', where: id => `Assignable.Id eq ${id}` }
+    );
+  }
+  queries.push(
+    { collection: 'Comments', where: id => `General.Id eq ${id}` },
+    { collection: 'Attachments', where: id => `General.Id eq ${id}` }
+  );
+
+  return queries;
+}
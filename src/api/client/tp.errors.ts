@@ -0,0 +1,55 @@
+import { FetchError } from 'node-fetch';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Network error codes raised before the request reached the server,
+ * so even non-idempotent calls can be retried safely
+ */
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Error for a non-2xx response from the Target Process API
+ */
+export class TPHttpError extends McpError {
+  constructor(
+    readonly status: number,
+    message: string,
+    /** Delay requested by the server's Retry-After header */
+    readonly retryAfterMs?: number
+  ) {
+    super(ErrorCode.InvalidRequest, message);
+    this.name = 'TPHttpError';
+  }
+
+  /**
+   * Throttling and server-side failures are worth another attempt
+   */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+export function isNetworkError(error: unknown): error is FetchError {
+  return error instanceof FetchError;
+}
+
+export function isConnectionError(error: unknown): boolean {
+  return isNetworkError(error) && CONNECTION_ERROR_CODES.includes(error.code ?? '');
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,92 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPService, TPServiceConfig, TPServiceDiagnostics } from './tp.service.js';
+
+export const DEFAULT_INSTANCE = 'default';
+
+export interface TPInstancesConfig {
+  instances: Record<string, TPServiceConfig>;
+  defaultInstance: string;
+}
+
+export interface TPInstanceInfo {
+  name: string;
+  domain: string;
+  isDefault: boolean;
+  diagnostics: TPServiceDiagnostics;
+}
+
+/**
+ * Holds one TPService per configured Target Process instance
+ * (e.g. production and sandbox accounts). Every service keeps its
+ * own entity type cache.
+ */
+export class TPInstanceManager {
+  private readonly services = new Map<string, TPService>();
+  private readonly configs: Record<string, TPServiceConfig>;
+  readonly defaultInstance: string;
+
+  constructor(config: TPInstancesConfig) {
+    const names = Object.keys(config.instances);
+    if (names.length === 0) {
+      throw new McpError(ErrorCode.InternalError, 'No Target Process instances configured');
+    }
+    if (!config.instances[config.defaultInstance]) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Default instance '${config.defaultInstance}' is not configured. Configured instances: ${names.join(', ')}`
+      );
+    }
+
+    this.configs = config.instances;
+    this.defaultInstance = config.defaultInstance;
+
+    for (const name of names) {
+      this.services.set(name, new TPService(config.instances[name], name));
+    }
+  }
+
+  /**
+   * Get the service for an instance, or the default instance when no name is given
+   */
+  get(name?: string): TPService {
+    const instance = name || this.defaultInstance;
+    const service = this.services.get(instance);
+
+    if (!service) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown instance: '${instance}'. Configured instances: ${this.names().join(', ')}`
+      );
+    }
+
+    return service;
+  }
+
+  names(): string[] {
+    return [...this.services.keys()];
+  }
+
+  entries(): [string, TPService][] {
+    return [...this.services.entries()];
+  }
+
+  get size(): number {
+    return this.services.size;
+  }
+
+  describe(): TPInstanceInfo[] {
+    return this.names().map(name => ({
+      name,
+      domain: this.configs[name].domain,
+      isDefault: name === this.defaultInstance,
+      diagnostics: this.get(name).getDiagnostics(),
+    }));
+  }
+
+  /**
+   * Per-instance diagnostics, keyed by instance name
+   */
+  diagnostics(): Record<string, TPServiceDiagnostics> {
+    return Object.fromEntries(this.entries().map(([name, service]) => [name, service.getDiagnostics()]));
+  }
+}
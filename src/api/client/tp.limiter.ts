@@ -0,0 +1,144 @@
+import { setTimeout } from 'node:timers/promises';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+export interface RateLimitConfig {
+  /** Sustained request rate (token bucket refill rate) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent back to back before the rate applies (bucket size) */
+  burst?: number;
+  /** Requests in flight at the same time */
+  maxConcurrent?: number;
+}
+
+export interface RateLimitDiagnostics {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+  availableTokens: number;
+  totalRequests: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const DEFAULT_BURST = 20;
+const DEFAULT_MAX_CONCURRENT = 5;
+
+/**
+ * Token bucket rate limiter combined with a FIFO concurrency queue.
+ * A request waits for a free slot first and then for a token, so bursts
+ * are spread out instead of hitting the API's throttling.
+ */
+export class RequestLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private tokenTurn: Promise<void> = Promise.resolve();
+  private readonly waiting: (() => void)[] = [];
+
+  private totalRequests = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(config: RateLimitConfig = {}) {
+    this.requestsPerSecond = config.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    this.burst = config.burst ?? DEFAULT_BURST;
+    this.maxConcurrent = config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    this.tokens = this.burst;
+
+    // A zero rate, bucket or slot count would leave every request waiting forever
+    if (!(this.requestsPerSecond > 0)) {
+      throw new McpError(ErrorCode.InternalError, `Invalid rate limit: requestsPerSecond must be greater than 0, got ${this.requestsPerSecond}`);
+    }
+    if (!(this.burst >= 1)) {
+      throw new McpError(ErrorCode.InternalError, `Invalid rate limit: burst must be at least 1, got ${this.burst}`);
+    }
+    if (!Number.isInteger(this.maxConcurrent) || this.maxConcurrent < 1) {
+      throw new McpError(ErrorCode.InternalError, `Invalid rate limit: maxConcurrent must be a whole number of at least 1, got ${this.maxConcurrent}`);
+    }
+  }
+
+  /**
+   * Run an operation once a concurrency slot and a rate limit token are available
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    const queuedAt = Date.now();
+
+    await this.acquireSlot();
+    try {
+      await this.acquireToken();
+      this.recordWait(Date.now() - queuedAt);
+      return await operation();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  diagnostics(): RateLimitDiagnostics {
+    this.refill();
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      burst: this.burst,
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queued: this.waiting.length,
+      availableTokens: Math.floor(this.tokens),
+      totalRequests: this.totalRequests,
+      averageWaitMs: this.totalRequests ? Math.round(this.totalWaitMs / this.totalRequests) : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over, so active stays unchanged
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Tokens are handed out in arrival order by chaining each request onto the previous one
+   */
+  private acquireToken(): Promise<void> {
+    this.tokenTurn = this.tokenTurn.then(() => this.takeToken());
+    return this.tokenTurn;
+  }
+
+  private async takeToken(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await setTimeout(Math.ceil((1 - this.tokens) * 1000 / this.requestsPerSecond));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.requestsPerSecond / 1000);
+    this.lastRefill = now;
+  }
+
+  private recordWait(waitMs: number): void {
+    this.totalRequests++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
@@ -0,0 +1,146 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Kinds of records tools accept by name as well as by ID
+ */
+export type ReferenceKind = 'User' | 'Project' | 'Team' | 'EntityState' | 'Priority' | 'Role' | 'Release' | 'Iteration' | 'TeamIteration';
+
+/**
+ * An ID, or a human reference: email, login or full name for users, name or
+ * abbreviation for projects and teams, name for everything else
+ */
+export type Reference = number | string;
+
+/**
+ * Narrows a name lookup to where the name is unique
+ */
+export interface ReferenceScope {
+  /** Entity type the state or priority belongs to, e.g. Bug */
+  entityType?: string;
+  /** Process whose workflow states are meant */
+  processId?: number;
+}
+
+export interface ReferenceCandidate {
+  Id: number;
+  Name?: string;
+  FirstName?: string;
+  LastName?: string;
+  Login?: string;
+  Email?: string;
+  Abbreviation?: string;
+  Project?: { Name?: string };
+  Team?: { Name?: string };
+  EntityType?: { Name?: string };
+  Process?: { Name?: string };
+}
+
+interface ReferenceLookup {
+  collection: string;
+  include: string;
+  /** Conditions a record must meet to match the given text */
+  match: (text: string) => string;
+  scope?: (scope: ReferenceScope) => string[];
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function byName(text: string): string {
+  return `Name eq ${quote(text)}`;
+}
+
+function byNameOrAbbreviation(text: string): string {
+  return `(Name eq ${quote(text)}) or (Abbreviation eq ${quote(text)})`;
+}
+
+function byUser(text: string): string {
+  const conditions = [`Email eq ${quote(text)}`, `Login eq ${quote(text)}`];
+  const [first, ...rest] = text.split(/\s+/);
+  if (rest.length > 0) {
+    conditions.push(`(FirstName eq ${quote(first)}) and (LastName eq ${quote(rest.join(' '))})`);
+  }
+  return `(${conditions.map(condition => `(${condition})`).join(' or ')}) and (IsActive eq 'true')`;
+}
+
+function byEntityType(scope: ReferenceScope): string[] {
+  return scope.entityType ? [`EntityType.Name eq ${quote(scope.entityType)}`] : [];
+}
+
+const REFERENCE_LOOKUPS: Record<ReferenceKind, ReferenceLookup> = {
+  User: { collection: 'Users', include: '[Id,FirstName,LastName,Login,Email]', match: byUser },
+  Project: { collection: 'Projects', include: '[Id,Name,Abbreviation]', match: byNameOrAbbreviation },
+  Team: { collection: 'Teams', include: '[Id,Name,Abbreviation]', match: byNameOrAbbreviation },
+  EntityState: {
+    collection: 'EntityStates',
+    include: '[Id,Name,EntityType[Name],Process[Name]]',
+    match: byName,
+    scope: scope => [
+      ...byEntityType(scope),
+      ...(scope.processId !== undefined ? [`Process.Id eq ${scope.processId}`] : []),
+    ],
+  },
+  Priority: { collection: 'Priorities', include: '[Id,Name,EntityType[Name]]', match: byName, scope: byEntityType },
+  Role: { collection: 'Roles', include: '[Id,Name]', match: byName },
+  Release: { collection: 'Releases', include: '[Id,Name,Project[Name]]', match: byName },
+  Iteration: { collection: 'Iterations', include: '[Id,Name,Project[Name]]', match: byName },
+  TeamIteration: { collection: 'TeamIterations', include: '[Id,Name,Team[Name]]', match: byName },
+};
+
+/**
+ * The numeric ID a reference already is, if any; numeric strings count as IDs
+ */
+export function referenceId(reference: Reference): number | undefined {
+  if (typeof reference === 'number') {
+    return reference;
+  }
+  return /^\d+$/.test(reference.trim()) ? Number(reference.trim()) : undefined;
+}
+
+/**
+ * Collection, where clause and include of the search that resolves a name
+ */
+export function referenceQuery(kind: ReferenceKind, text: string, scope: ReferenceScope = {}) {
+  const lookup = REFERENCE_LOOKUPS[kind];
+  const conditions = [lookup.match(text.trim()), ...(lookup.scope?.(scope) || [])];
+
+  return {
+    collection: lookup.collection,
+    where: conditions.length > 1 ? conditions.map(condition => `(${condition})`).join(' and ') : conditions[0],
+    include: lookup.include,
+  };
+}
+
+function describeCandidate(candidate: ReferenceCandidate): string {
+  const name = candidate.Name ?? [candidate.FirstName, candidate.LastName].filter(Boolean).join(' ');
+  const context = [
+    candidate.Email || candidate.Login,
+    candidate.Abbreviation,
+    candidate.EntityType?.Name,
+    candidate.Process?.Name,
+    candidate.Project?.Name,
+    candidate.Team?.Name,
+  ].filter(Boolean);
+
+  return `${name} (#${candidate.Id}${context.length > 0 ? `, ${context.join(', ')}` : ''})`;
+}
+
+/**
+ * The single record a name lookup found; no match or several matches are
+ * reported as invalid parameters so the caller can pick an ID
+ */
+export function pickCandidate(kind: ReferenceKind, text: string, candidates: ReferenceCandidate[], more: boolean): number {
+  if (candidates.length === 1) {
+    return candidates[0].Id;
+  }
+
+  if (candidates.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `No ${kind} matches '${text}'`);
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `'${text}' matches several ${kind} records: ${candidates.map(describeCandidate).join('; ')}${more ? '; ...' : ''}. Pass the ID instead`
+  );
+}
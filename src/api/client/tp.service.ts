@@ -1,19 +1,42 @@
-import fetch, { Response } from 'node-fetch';
+import fetch, { Blob, FormData, Response } from 'node-fetch';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { URLSearchParams } from 'node:url';
+import { URL, URLSearchParams } from 'node:url';
 import { setTimeout } from 'node:timers/promises';
 import { AssignableEntityData } from '../../entities/assignable/assignable.entity.js';
 import { UserStoryData } from '../../entities/assignable/user-story.entity.js';
-import { ApiResponse, CreateEntityRequest, UpdateEntityRequest, CreateCommentRequest, CreateRelationRequest, CreateAssignmentRequest, CreateRoleEffortRequest, UpdateRoleEffortRequest } from './api.types.js';
-
-type OrderByOption = string | { field: string; direction: 'asc' | 'desc' };
+import { normalizeWhereClause, parseWhere, serializeWhereV2, toV2Field } from '../query/where.parser.js';
+import { AggregateQuery, AggregateResult, AggregateRow, aggregateRows, getPath, includesForFields, metricLabel } from '../query/aggregate.js';
+import { TPHttpError, isNetworkError, isConnectionError, parseRetryAfter } from './tp.errors.js';
+import { RateLimitConfig, RateLimitDiagnostics, RequestLimiter } from './tp.limiter.js';
+import { CacheFlushFilter, CacheStats, CacheTags, ResponseCache, ResponseCacheConfig } from './tp.cache.js';
+import { CoalescingDiagnostics, RequestCoalescer } from './tp.coalescer.js';
+import { NormalizerConfig, ResponseNormalizer } from '../../output/response.normalizer.js';
+import { ItemsRenderer, ResponseBudget, ResponseBudgetConfig } from '../../output/response.budget.js';
+import { TextContent } from '../../output/output.formatter.js';
+import { AttachmentConfig, ResolvedAttachmentConfig, formatBytes, resolveAttachmentConfig } from './tp.attachments.js';
+import { DeletionConfig, DeletionImpact, DependentCount, dependentQueries } from './tp.deletion.js';
+import { CustomFieldDefinition } from './tp.customfields.js';
+import { Reference, ReferenceCandidate, ReferenceKind, ReferenceScope, pickCandidate, referenceId, referenceQuery } from './tp.resolver.js';
+import { TPAuthConfig, TPAuthProvider, createAuthProvider, scrubSecrets } from './tp.auth.js';
+import { ApiResponse, SearchPage, V2Query, V2Response, V2QueryResult, CreateEntityRequest, UpdateEntityRequest, CreateCommentRequest, UpdateCommentRequest, CreateRelationRequest, CreateAssignmentRequest, CreateRoleEffortRequest, UpdateRoleEffortRequest } from './api.types.js';
+
+export type OrderByOption = string | { field: string; direction: 'asc' | 'desc' };
 
 interface RetryConfig {
   maxRetries: number;
   delayMs: number;
   backoffFactor: number;
+  /** Longest Retry-After the service will wait for before giving up */
+  maxRetryAfterMs?: number;
+}
+
+interface RetryOptions {
+  /** Whether repeating the call has no additional effect; creates are not */
+  idempotent?: boolean;
 }
 
+const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+
 interface ApiErrorResponse {
   Message?: string;
   ErrorMessage?: string;
@@ -22,8 +45,34 @@ interface ApiErrorResponse {
 
 export interface TPServiceConfig {
   domain: string;
-  accessToken: string;
+  /** Access token; sent in a header unless auth selects another mode */
+  accessToken?: string;
+  auth?: TPAuthConfig;
   retry?: RetryConfig;
+  rateLimit?: RateLimitConfig;
+  cache?: ResponseCacheConfig;
+  output?: NormalizerConfig & ResponseBudgetConfig;
+  attachments?: AttachmentConfig;
+  deletion?: DeletionConfig;
+}
+
+export interface TPServiceDiagnostics {
+  rateLimit: RateLimitDiagnostics;
+  coalescing: CoalescingDiagnostics;
+}
+
+const MAX_PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+const MAX_ITEMS_ALL_PAGES = 10000;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE';
+  /** API version of the endpoint (default: v1) */
+  apiVersion?: 'v1' | 'v2';
+  params?: URLSearchParams;
+  body?: unknown;
+  /** Multipart body, sent with its own Content-Type */
+  form?: FormData;
 }
 
 /**
@@ -31,43 +80,19 @@ export interface TPServiceConfig {
  */
 export class TPService {
   private readonly baseUrl: string;
-  private readonly accessToken: string;
+  private readonly baseUrlV2: string;
+  private readonly auth: TPAuthProvider;
+  private readonly limiter: RequestLimiter;
+  private readonly cache: ResponseCache;
+  private readonly coalescer = new RequestCoalescer();
+  private readonly normalizer: ResponseNormalizer;
+  private readonly budget: ResponseBudget;
+  private readonly siteUrl: string;
+  private readonly attachments: ResolvedAttachmentConfig;
+  private readonly deletion: Required<DeletionConfig>;
 
   private readonly retryConfig: RetryConfig;
 
-  /**
-   * Formats a value for use in a where clause based on its type
-   */
-  private formatWhereValue(value: unknown): string {
-    if (value === null) {
-      return 'null';
-    }
-
-    if (typeof value === 'boolean') {
-      return value.toString().toLowerCase();
-    }
-
-    if (value instanceof Date) {
-      return `'${value.toISOString().split('T')[0]}'`;
-    }
-
-    if (Array.isArray(value)) {
-      return `[${value.map(v => this.formatWhereValue(v)).join(',')}]`;
-    }
-
-    // Handle strings
-    const strValue = String(value);
-    
-    // Remove any existing quotes
-    const unquoted = strValue.replace(/^['"]|['"]$/g, '');
-    
-    // Escape single quotes by doubling them
-    const escaped = unquoted.replace(/'/g, "''");
-    
-    // Always wrap in single quotes as per TargetProcess API requirements
-    return `'${escaped}'`;
-  }
-
   /**
    * Formats a field name for use in a where clause
    */
@@ -82,74 +107,10 @@ export class TPService {
   }
 
   /**
-   * Validates and formats a where clause according to TargetProcess rules
+   * Parses a where clause and re-serializes it according to TargetProcess rules
    */
   private validateWhereClause(where: string): string {
-    try {
-      // Handle empty/null cases
-      if (!where || !where.trim()) {
-        throw new McpError(ErrorCode.InvalidRequest, 'Empty where clause');
-      }
-
-      // Split on 'and' while preserving quoted strings
-      const conditions: string[] = [];
-      let currentCondition = '';
-      let inQuote = false;
-      let quoteChar = '';
-
-      for (let i = 0; i < where.length; i++) {
-        const char = where[i];
-        
-        if ((char === "'" || char === '"') && where[i - 1] !== '\\') {
-          if (!inQuote) {
-            inQuote = true;
-            quoteChar = char;
-          } else if (char === quoteChar) {
-            inQuote = false;
-          }
-        }
-
-        if (!inQuote && where.slice(i, i + 4).toLowerCase() === ' and') {
-          conditions.push(currentCondition.trim());
-          currentCondition = '';
-          i += 3; // Skip 'and'
-          continue;
-        }
-
-        currentCondition += char;
-      }
-      conditions.push(currentCondition.trim());
-
-      return conditions.map(condition => {
-        // Handle null checks
-        if (/\bis\s+null\b/i.test(condition)) {
-          const field = condition.split(/\bis\s+null\b/i)[0].trim();
-          return `${this.formatWhereField(field)} is null`;
-        }
-        if (/\bis\s+not\s+null\b/i.test(condition)) {
-          const field = condition.split(/\bis\s+not\s+null\b/i)[0].trim();
-          return `${this.formatWhereField(field)} is not null`;
-        }
-
-        // Match field and operator while preserving quoted values
-        const match = condition.match(/^([^\s]+)\s+(eq|ne|gt|gte|lt|lte|in|contains|not\s+contains)\s+(.+)$/i);
-        if (!match) {
-          throw new McpError(ErrorCode.InvalidRequest, `Invalid condition format: ${condition}`);
-        }
-
-        const [, field, operator, value] = match;
-        const formattedField = this.formatWhereField(field);
-        const formattedValue = this.formatWhereValue(value.trim());
-
-        return `${formattedField} ${operator.toLowerCase()} ${formattedValue}`;
-      }).join(' and ');
-    } catch (error) {
-      if (error instanceof McpError) throw error;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Invalid where clause: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+    return normalizeWhereClause(where, field => this.formatWhereField(field));
   }
 
   /**
@@ -185,10 +146,24 @@ export class TPService {
     return `[${validIncludes.join(',')}]`;
   }
 
-  constructor(config: TPServiceConfig) {
-    const { domain, accessToken, retry } = config;
+  /**
+   * @param instance Name of the configured instance, used to route fetch_more continuations
+   */
+  constructor(config: TPServiceConfig, instance?: string) {
+    const { domain, accessToken, auth, retry, rateLimit, cache, output, attachments, deletion } = config;
     this.baseUrl = `https://${domain}/api/v1`;
-    this.accessToken = accessToken;
+    this.baseUrlV2 = `https://${domain}/api/v2`;
+    this.siteUrl = `https://${domain}`;
+    this.auth = createAuthProvider(auth, accessToken);
+    this.limiter = new RequestLimiter(rateLimit);
+    this.cache = new ResponseCache(cache);
+    this.normalizer = new ResponseNormalizer(output);
+    this.budget = new ResponseBudget(output, instance);
+    this.attachments = resolveAttachmentConfig(attachments);
+    this.deletion = {
+      mode: deletion?.mode || 'delete',
+      archiveState: deletion?.archiveState || 'Removed'
+    };
     this.retryConfig = retry || {
       maxRetries: 3,
       delayMs: 1000,
@@ -196,10 +171,157 @@ export class TPService {
     };
   }
 
+  /**
+   * Send a request to the API with credentials applied by the auth provider.
+   * Every request goes through the rate limiter shared by all tools.
+   */
+  private async request(path: string, options: RequestOptions = {}): Promise<Response> {
+    const baseUrl = options.apiVersion === 'v2' ? this.baseUrlV2 : this.baseUrl;
+    // Paths starting with / address site handlers outside the REST API, e.g. /UploadFile.ashx
+    const url = new URL(path.startsWith('/') ? `${this.siteUrl}${path}` : `${baseUrl}/${path}`);
+    options.params?.forEach((value, key) => url.searchParams.append(key, value));
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/json'
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    this.auth.apply(url, headers);
+
+    return await this.limiter.run(() => fetch(url.toString(), {
+      method: options.method || 'GET',
+      headers,
+      body: options.form ?? (options.body !== undefined ? JSON.stringify(options.body) : undefined)
+    }));
+  }
+
+  /**
+   * Current rate limiter state: queue depth, requests in flight and wait times
+   */
+  getDiagnostics(): TPServiceDiagnostics {
+    return {
+      rateLimit: this.limiter.diagnostics(),
+      coalescing: this.coalescer.diagnostics()
+    };
+  }
+
+  /**
+   * Serve a read from the cache, joining an identical read that is already in flight
+   */
+  private read<T>(key: string, tags: CacheTags, loader: () => Promise<T>): Promise<T> {
+    return this.coalescer.run(key, () => this.cache.getOrLoad(key, tags, loader));
+  }
+
+  /**
+   * Forget cached and in-flight reads that may show the given entities;
+   * without IDs only searches are dropped
+   */
+  private invalidate(...ids: number[]): void {
+    this.coalescer.clear();
+    if (ids.length === 0) {
+      this.cache.invalidateEntity();
+    }
+    ids.forEach(id => this.cache.invalidateEntity(id));
+  }
+
+  /**
+   * IDs of the entities a record such as a relation or role effort belongs to,
+   * read before changing it so their cached reads can be dropped afterwards.
+   * A failed lookup yields no IDs and leaves the change itself to report errors
+   */
+  private async ownerIds(collection: string, id: number, owners: string[]): Promise<number[]> {
+    try {
+      const params = new URLSearchParams({
+        format: 'json',
+        include: `[${owners.map(owner => `${owner}[Id]`).join(',')}]`
+      });
+      const record = await this.executeWithRetry(async () => {
+        const response = await this.request(`${collection}/${id}`, { params });
+
+        return await this.handleApiResponse<Record<string, { Id?: number } | null | undefined>>(
+          response,
+          `get ${collection} ${id}`
+        );
+      }, `get ${collection} ${id}`);
+
+      return owners
+        .map(owner => record[owner]?.Id)
+        .filter((ownerId): ownerId is number => typeof ownerId === 'number');
+    } catch (error) {
+      console.error(`Could not read the owners of ${collection} ${id}:`, this.describeError(error));
+      return [];
+    }
+  }
+
+  /**
+   * Convert a response for tool output: ISO dates, Markdown descriptions, no metadata noise
+   */
+  normalize<T>(value: T): unknown {
+    return this.normalizer.normalize(value);
+  }
+
+  /**
+   * Render a list within the response budget; the rest is kept for fetch_more
+   */
+  fitItems(items: unknown[], render: ItemsRenderer, meta?: Record<string, unknown>, maxChars?: number): TextContent[] {
+    return this.budget.fitItems(items, render, meta, maxChars);
+  }
+
+  /**
+   * Cut response text that exceeds the budget; the rest is kept for fetch_more
+   */
+  fitText<T extends { type: string; text: string }>(content: T[], maxChars?: number): (T | TextContent)[] {
+    return this.budget.fitText(content, maxChars);
+  }
+
+  /**
+   * Next part of a response truncated by fitItems or fitText
+   */
+  fetchMore(continuation: string, maxChars?: number): TextContent[] {
+    return this.budget.next(continuation, maxChars);
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Drop cached responses matching the filter, or everything without one
+   */
+  flushCache(filter?: CacheFlushFilter): number {
+    return this.cache.flush(filter);
+  }
+
+  /**
+   * Remove credentials from a message before it reaches logs or errors
+   */
+  private scrub(message: string): string {
+    return scrubSecrets(message, this.auth.secrets());
+  }
+
+  /**
+   * Error message safe to log: network errors quote the request URL, which
+   * carries the token in query auth mode
+   */
+  private describeError(error: unknown): string {
+    return this.scrub(error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Run an API operation, retrying network errors, throttling (429) and server
+   * errors (5xx) with exponential backoff and jitter. A Retry-After header from
+   * the server takes precedence over the computed delay. Non-idempotent calls
+   * are only retried when the server cannot have processed the request.
+   */
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
-    context: string
+    context: string,
+    options: RetryOptions = {}
   ): Promise<T> {
+    const idempotent = options.idempotent ?? true;
+    const maxRetryAfterMs = this.retryConfig.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
     let lastError: Error | null = null;
     let delay = this.retryConfig.delayMs;
 
@@ -208,11 +330,8 @@ export class TPService {
         return await operation();
       } catch (error) {
         lastError = error as Error;
-        
-        // Don't retry on 400 (bad request) or 401 (unauthorized)
-        if (error instanceof McpError && 
-            (error.message.includes('status: 400') || 
-             error.message.includes('status: 401'))) {
+
+        if (!this.isRetryable(error, idempotent)) {
           throw error;
         }
 
@@ -220,24 +339,48 @@ export class TPService {
           break;
         }
 
-        // Wait before retrying
-        await setTimeout(delay);
+        const retryAfterMs = error instanceof TPHttpError ? error.retryAfterMs : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+          // The server asked us to back off longer than we are willing to wait
+          throw error;
+        }
+
+        await setTimeout(retryAfterMs ?? this.withJitter(delay));
         delay *= this.retryConfig.backoffFactor;
       }
     }
 
     throw new McpError(
       ErrorCode.InvalidRequest,
-      `Failed to ${context} after ${this.retryConfig.maxRetries} attempts: ${lastError?.message}`
+      `Failed to ${context} after ${this.retryConfig.maxRetries} attempts: ${this.scrub(lastError?.message ?? '')}`
     );
   }
 
+  private isRetryable(error: unknown, idempotent: boolean): boolean {
+    if (error instanceof TPHttpError) {
+      // A throttled request was rejected before processing, so it is always safe to repeat
+      return error.status === 429 || (idempotent && error.retryable);
+    }
+    if (isNetworkError(error)) {
+      return idempotent || isConnectionError(error);
+    }
+    return false;
+  }
+
+  /**
+   * Randomize a delay between half and the full value so that concurrent
+   * clients do not retry in lockstep
+   */
+  private withJitter(delayMs: number): number {
+    return Math.round(delayMs / 2 + Math.random() * delayMs / 2);
+  }
+
   private async extractErrorMessage(response: Response): Promise<string> {
     try {
       const data = await response.json() as ApiErrorResponse;
-      return data.Message || data.ErrorMessage || data.Description || response.statusText;
+      return this.scrub(data.Message || data.ErrorMessage || data.Description || response.statusText);
     } catch {
-      return response.statusText;
+      return this.scrub(response.statusText);
     }
   }
 
@@ -250,9 +393,10 @@ export class TPService {
   ): Promise<T> {
     if (!response.ok) {
       const errorMessage = await this.extractErrorMessage(response);
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `${context} failed: ${response.status} - ${errorMessage}`
+      throw new TPHttpError(
+        response.status,
+        `${context} failed: ${response.status} - ${errorMessage}`,
+        parseRetryAfter(response.headers.get('Retry-After'))
       );
     }
     return await response.json() as T;
@@ -295,7 +439,7 @@ export class TPService {
             this.validEntityTypesCache = await this.cacheInitPromise;
             this.cacheTimestamp = Date.now();
           } catch (error) {
-            console.error('Failed to fetch valid entity types:', error);
+            console.error(`Failed to fetch valid entity types: ${this.describeError(error)}`);
             // Fall back to static list if API call fails
             this.validEntityTypesCache = staticValidEntityTypes;
           } finally {
@@ -336,8 +480,24 @@ export class TPService {
     where?: string,
     include?: string[],
     take: number = 25,
-    orderBy?: string[]
+    orderBy?: OrderByOption[]
   ): Promise<T[]> {
+    const page = await this.searchEntitiesPage<T>(type, where, include, take, orderBy);
+    return page.items;
+  }
+
+  /**
+   * Search a single page of entities, keeping the paging information
+   * that the API returns in its Next link
+   */
+  async searchEntitiesPage<T>(
+    type: string,
+    where?: string,
+    include?: string[],
+    take: number = 25,
+    orderBy?: OrderByOption[],
+    skip: number = 0
+  ): Promise<SearchPage<T>> {
     try {
       // Validate entity type (now async)
       const validatedType = await this.validateEntityType(type);
@@ -347,6 +507,10 @@ export class TPService {
         take: take.toString()
       });
 
+      if (skip > 0) {
+        params.append('skip', skip.toString());
+      }
+
       if (where) {
         params.append('where', this.validateWhereClause(where));
       }
@@ -356,23 +520,29 @@ export class TPService {
       }
 
       if (orderBy?.length) {
-        params.append('orderBy', this.formatOrderBy(orderBy as OrderByOption[]));
+        params.append('orderBy', this.formatOrderBy(orderBy));
       }
 
-      return await this.executeWithRetry(async () => {
-        params.append('access_token', this.accessToken);
-        const response = await fetch(`${this.baseUrl}/${validatedType}s?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+      return await this.read(`search:${validatedType}s?${params}`, { kind: 'search', type: validatedType }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s`, { params });
 
         const data = await this.handleApiResponse<ApiResponse<T>>(
           response,
           `search ${validatedType}s`
         );
-        return data.Items || [];
-      }, `search ${validatedType}s`);
+        const items = data.Items || [];
+        const nextSkip = this.parseNextSkip(data.Next, skip + items.length);
+
+        return {
+          items,
+          skip,
+          take,
+          hasMore: nextSkip !== undefined,
+          nextSkip,
+          // Without a Next link this page is the last one, so the total is known
+          totalCount: nextSkip === undefined ? skip + items.length : undefined
+        };
+      }, `search ${validatedType}s`));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -380,11 +550,61 @@ export class TPService {
       
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to search ${type}s: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to search ${type}s: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
 
+  /**
+   * Search entities across pages by following Next links, up to maxItems
+   */
+  async searchAllEntities<T>(
+    type: string,
+    where?: string,
+    include?: string[],
+    orderBy?: string[],
+    maxItems: number = 1000,
+    skip: number = 0
+  ): Promise<SearchPage<T>> {
+    const limit = Math.min(maxItems, MAX_ITEMS_ALL_PAGES);
+    const items: T[] = [];
+    let nextSkip: number | undefined = skip;
+    let pages = 0;
+
+    while (nextSkip !== undefined && items.length < limit && pages < MAX_PAGES) {
+      const take = Math.min(MAX_PAGE_SIZE, limit - items.length);
+      const page: SearchPage<T> = await this.searchEntitiesPage<T>(type, where, include, take, orderBy, nextSkip);
+      items.push(...page.items);
+      nextSkip = page.items.length > 0 ? page.nextSkip : undefined;
+      pages++;
+    }
+
+    return {
+      items,
+      skip,
+      take: items.length,
+      hasMore: nextSkip !== undefined,
+      nextSkip,
+      totalCount: nextSkip === undefined ? skip + items.length : undefined
+    };
+  }
+
+  /**
+   * Extract the skip offset of the next page from the API's Next link
+   */
+  private parseNextSkip(next: string | undefined, fallback: number): number | undefined {
+    if (!next) {
+      return undefined;
+    }
+
+    try {
+      const skip = Number(new URL(next).searchParams.get('skip'));
+      return Number.isFinite(skip) && skip > 0 ? skip : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
   /**
    * Get a single entity by ID
    */
@@ -405,106 +625,543 @@ export class TPService {
         params.append('include', this.validateInclude(include));
       }
 
-      return await this.executeWithRetry(async () => {
-        params.append('access_token', this.accessToken);
-        const response = await fetch(`${this.baseUrl}/${validatedType}s/${id}?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
+      return await this.read(`get:${validatedType}s/${id}?${params}`, { kind: 'get', type: validatedType, id }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s/${id}`, { params });
+
+        return await this.handleApiResponse<T>(
+          response,
+          `get ${validatedType} ${id}`
+        );
+      }, `get ${validatedType} ${id}`));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to get ${type} ${id}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Query the API v2 endpoint, which evaluates select projections, filters and
+   * aggregations on the server. Expressions use v2 syntax, e.g.
+   * select `{id,name,assignedUser.fullName}`, where `(entityState.isFinal==false)`,
+   * result `count` or `{total:sum(effort)}`.
+   */
+  async queryV2<T>(type: string, query: V2Query = {}): Promise<V2QueryResult<T>> {
+    try {
+      const validatedType = await this.validateEntityType(type);
+
+      const params = new URLSearchParams();
+      if (query.select) {
+        params.append('select', this.validateV2Expression('select', query.select));
+      }
+      if (query.where) {
+        params.append('where', this.validateV2Expression('where', query.where));
+      }
+      if (query.result) {
+        params.append('result', this.validateV2Expression('result', query.result));
+      }
+      if (query.orderBy) {
+        params.append('orderBy', this.validateV2Expression('orderBy', query.orderBy));
+      }
+      if (query.take !== undefined) {
+        params.append('take', String(Math.min(query.take, MAX_PAGE_SIZE)));
+      }
+      if (query.skip) {
+        params.append('skip', String(query.skip));
+      }
+
+      return await this.read(`v2:${validatedType}?${params}`, { kind: 'search', type: validatedType }, () => this.executeWithRetry(async () => {
+        const response = await this.request(validatedType, { params, apiVersion: 'v2' });
+
+        const data = await this.handleApiResponse<V2Response<T> | T>(
+          response,
+          `query ${validatedType} (v2)`
+        );
+
+        // With result=... the API returns the aggregate itself rather than a page of items
+        if (data && typeof data === 'object' && Array.isArray((data as V2Response<T>).items)) {
+          const page = data as V2Response<T>;
+          return { items: page.items, hasMore: Boolean(page.next) };
+        }
+        return { result: data as T, hasMore: false };
+      }, `query ${validatedType} (v2)`));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to query ${type} (v2): ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Group entities and compute counts and numeric metrics. When the where clause
+   * and fields can be expressed in API v2, the server computes ungrouped metrics
+   * itself and only the needed fields are fetched for grouped ones; otherwise
+   * (or when v2 is unavailable) the items are read page by page through API v1.
+   */
+  async aggregateEntities(type: string, query: AggregateQuery): Promise<AggregateResult> {
+    const groupBy = query.groupBy || [];
+    const maxItems = Math.min(query.maxItems ?? MAX_ITEMS_ALL_PAGES, MAX_ITEMS_ALL_PAGES);
+
+    for (const metric of query.metrics) {
+      if (metric.op !== 'count' && !metric.field) {
+        throw new McpError(ErrorCode.InvalidParams, `Metric '${metric.op}' requires a field`);
+      }
+    }
+    const fields = [...groupBy, ...query.metrics.flatMap(metric => metric.field ? [metric.field] : [])];
+    for (const field of fields) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/.test(field)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid field name: '${field}'`);
+      }
+    }
+
+    const v2Where = query.where ? serializeWhereV2(parseWhere(query.where)) : undefined;
+    if (v2Where !== null && fields.every(field => toV2Field(field) !== null)) {
+      try {
+        return await this.aggregateV2(type, { ...query, groupBy }, v2Where, maxItems);
+      } catch (error) {
+        if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+          throw error;
+        }
+        console.error(`API v2 aggregation of ${type} failed, falling back to API v1: ${this.describeError(error)}`);
+      }
+    }
+
+    return this.aggregateV1(type, { ...query, groupBy }, maxItems);
+  }
+
+  private async aggregateV2(
+    type: string,
+    query: AggregateQuery & { groupBy: string[] },
+    where: string | undefined,
+    maxItems: number
+  ): Promise<AggregateResult> {
+    const { groupBy, metrics } = query;
+
+    if (groupBy.length === 0) {
+      const result = metrics
+        .map((metric, index) => `m${index}:${metric.op === 'count' ? 'count' : `${metric.op}(${toV2Field(metric.field!)})`}`)
+        .join(',');
+      const response = await this.queryV2<Record<string, number | null>>(type, { where, result: `{${result}}` });
+
+      return {
+        groups: [{
+          key: {},
+          values: Object.fromEntries(metrics.map((metric, index) => [metricLabel(metric), response.result?.[`m${index}`] ?? null])),
+        }],
+        source: 'v2',
+        truncated: false,
+      };
+    }
+
+    const select = [
+      ...groupBy.map((field, index) => `g${index}:${toV2Field(field)}`),
+      ...metrics.flatMap((metric, index) => metric.field ? [`m${index}:${toV2Field(metric.field)}`] : []),
+    ].join(',');
+
+    const rows: AggregateRow[] = [];
+    let hasMore = true;
+    while (hasMore && rows.length < maxItems) {
+      const page = await this.queryV2<Record<string, unknown>>(type, {
+        select: `{${select}}`,
+        where,
+        take: Math.min(MAX_PAGE_SIZE, maxItems - rows.length),
+        skip: rows.length,
+      });
+      const items = page.items || [];
+      rows.push(...items.map(item => ({
+        keys: groupBy.map((_, index) => item[`g${index}`]),
+        values: metrics.map((_, index) => item[`m${index}`]),
+      })));
+      hasMore = page.hasMore && items.length > 0;
+    }
+
+    return {
+      groups: aggregateRows(rows, groupBy, metrics),
+      source: 'v2',
+      scannedItems: rows.length,
+      truncated: hasMore,
+    };
+  }
+
+  private async aggregateV1(
+    type: string,
+    query: AggregateQuery & { groupBy: string[] },
+    maxItems: number
+  ): Promise<AggregateResult> {
+    const { groupBy, metrics } = query;
+    const fields = [...groupBy, ...metrics.flatMap(metric => metric.field ? [metric.field] : [])];
+    const include = includesForFields(fields);
+
+    const page = await this.searchAllEntities<unknown>(type, query.where, include.length ? include : ['Id'], undefined, maxItems);
+    const rows = page.items.map(item => ({
+      keys: groupBy.map(field => getPath(item, field)),
+      values: metrics.map(metric => metric.field ? getPath(item, metric.field) : undefined),
+    }));
+
+    return {
+      groups: aggregateRows(rows, groupBy, metrics),
+      source: 'v1',
+      scannedItems: rows.length,
+      truncated: page.hasMore,
+    };
+  }
+
+  /**
+   * Basic sanity check for API v2 expressions: brackets must balance outside string literals
+   */
+  private validateV2Expression(name: string, expression: string): string {
+    const trimmed = expression.trim();
+    if (!trimmed) {
+      throw new McpError(ErrorCode.InvalidParams, `Empty ${name} expression`);
+    }
+
+    const pairs: Record<string, string> = { ')': '(', '}': '{', ']': '[' };
+    const stack: { char: string; position: number }[] = [];
+    let quote: string | null = null;
+
+    for (let i = 0; i < trimmed.length; i++) {
+      const char = trimmed[i];
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ('({['.includes(char)) {
+        stack.push({ char, position: i });
+      } else if (pairs[char]) {
+        if (stack.pop()?.char !== pairs[char]) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} expression: unexpected '${char}' at position ${i}`);
+        }
+      }
+    }
+
+    if (quote) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} expression: unterminated string`);
+    }
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} expression: '${unclosed.char}' at position ${unclosed.position} is never closed`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Create a new entity
+   */
+  async createEntity<T>(
+    type: string,
+    data: CreateEntityRequest
+  ): Promise<T> {
+    try {
+      // Validate entity type (now async)
+      const validatedType = await this.validateEntityType(type);
+      
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s`, {
+          method: 'POST',
+          body: data
+        });
+
+        return await this.handleApiResponse<T>(
+          response,
+          `create ${validatedType}`
+        );
+      }, `create ${validatedType}`, { idempotent: false });
+      this.invalidate();
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to create ${type}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Update an existing entity
+   */
+  async updateEntity<T>(
+    type: string,
+    id: number,
+    data: UpdateEntityRequest
+  ): Promise<T> {
+    try {
+      // Validate entity type (now async)
+      const validatedType = await this.validateEntityType(type);
+      
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s/${id}`, {
+          method: 'POST',
+          body: data
         });
 
         return await this.handleApiResponse<T>(
+          response,
+          `update ${validatedType} ${id}`
+        );
+      }, `update ${validatedType} ${id}`);
+      this.invalidate(id);
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to update ${type} ${id}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Delete an entity. Target Process removes its child tasks, comments and
+   * attachments along with it.
+   */
+  async deleteEntity(type: string, id: number): Promise<void> {
+    try {
+      const validatedType = await this.validateEntityType(type);
+
+      await this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s/${id}`, { method: 'DELETE' });
+
+        if (!response.ok) {
+          const errorMessage = await this.extractErrorMessage(response);
+          throw new TPHttpError(
+            response.status,
+            `delete ${validatedType} ${id} failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        }
+      }, `delete ${validatedType} ${id}`);
+      this.invalidate(id);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to delete ${type} ${id}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Whether delete_entity may hard-delete, and the state archived entities move to
+   */
+  getDeletionConfig(): Required<DeletionConfig> {
+    return this.deletion;
+  }
+
+  /**
+   * Report what deleting an entity would affect: child work items, relations,
+   * assignments, role efforts, comments and attachments
+   */
+  async getDeletionImpact(type: string, id: number): Promise<DeletionImpact> {
+    const validatedType = await this.validateEntityType(type);
+    const entity = await this.getEntity<{ Id: number; Name?: string; EntityState?: { Name?: string } }>(
+      validatedType,
+      id,
+      ['Name', 'EntityState']
+    );
+
+    const queries = dependentQueries(validatedType);
+    const counts = await Promise.all(queries.map(query => this.countRecords(query.collection, query.where(id))));
+
+    return {
+      entity: {
+        Id: entity.Id,
+        ResourceType: validatedType,
+        Name: entity.Name,
+        EntityState: entity.EntityState?.Name,
+      },
+      dependents: Object.fromEntries(queries.map((query, index) => [query.collection, counts[index]])),
+    };
+  }
+
+  /**
+   * Count the records of a collection matching a where clause, up to one page.
+   * Not cached: the counts guard a deletion and must be current.
+   */
+  private async countRecords(collection: string, where: string): Promise<DependentCount> {
+    try {
+      const params = new URLSearchParams({
+        format: 'json',
+        where,
+        include: '[Id]',
+        take: MAX_PAGE_SIZE.toString()
+      });
+
+      return await this.executeWithRetry(async () => {
+        const response = await this.request(collection, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<unknown>>(
+          response,
+          `count ${collection}`
+        );
+        return { count: data.Items?.length ?? 0, more: Boolean(data.Next) };
+      }, `count ${collection}`);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to count ${collection}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Workflow states available to an entity: the states of its process for its
+   * entity type, together with its current state. Read past the response cache,
+   * since a transition decided on a stale current state would be wrong.
+   */
+  async getEntityStates<T extends { Id: number; Name: string }>(
+    type: string,
+    id: number
+  ): Promise<{ current?: { Id: number; Name?: string }; states: T[] }> {
+    try {
+      const validatedType = await this.validateEntityType(type);
+      // A project follows its own process; everything else follows its project's
+      const entityParams = new URLSearchParams({
+        format: 'json',
+        include: validatedType === 'Project' ? '[Id,EntityState[Id,Name],Process[Id]]' : '[Id,EntityState[Id,Name],Project[Id,Process[Id]]]'
+      });
+
+      const entity = await this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s/${id}`, { params: entityParams });
+
+        return await this.handleApiResponse<{ EntityState?: { Id: number; Name?: string }; Process?: { Id: number }; Project?: { Process?: { Id: number } } }>(
           response,
           `get ${validatedType} ${id}`
         );
       }, `get ${validatedType} ${id}`);
+
+      const processId = validatedType === 'Project' ? entity.Process?.Id : entity.Project?.Process?.Id;
+      if (processId === undefined) {
+        // Without a process the states of every process would be mixed together
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${validatedType} ${id} has no process, so its workflow states are unknown`
+        );
+      }
+
+      const params = new URLSearchParams({
+        format: 'json',
+        where: `(Process.Id eq ${processId}) and (EntityType.Name eq '${validatedType}')`,
+        include: '[Id,Name,IsInitial,IsFinal,NumericPriority,NextStates[Id,Name]]',
+        orderBy: 'NumericPriority',
+        take: MAX_PAGE_SIZE.toString()
+      });
+
+      const states = await this.executeWithRetry(async () => {
+        const response = await this.request(`EntityStates`, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<T>>(
+          response,
+          'search EntityStates'
+        );
+        return data.Items || [];
+      }, 'search EntityStates');
+
+      return { current: entity.EntityState, states };
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
       }
-      
+
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to get ${type} ${id}: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get states of ${type} ${id}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
 
   /**
-   * Create a new entity
+   * The process an entity follows: its own for a project, its project's otherwise
    */
-  async createEntity<T>(
-    type: string,
-    data: CreateEntityRequest
-  ): Promise<T> {
+  async getProcessId(type: string, id: number): Promise<number | undefined> {
     try {
-      // Validate entity type (now async)
       const validatedType = await this.validateEntityType(type);
-      
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/${validatedType}s?${params}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
-        });
+      const params = new URLSearchParams({
+        format: 'json',
+        include: validatedType === 'Project' ? '[Id,Process[Id]]' : '[Id,Project[Id,Process[Id]]]'
+      });
 
-        return await this.handleApiResponse<T>(
+      const entity = await this.read(`get:${validatedType}s/${id}?${params}`, { kind: 'get', type: validatedType, id }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`${validatedType}s/${id}`, { params });
+
+        return await this.handleApiResponse<{ Process?: { Id: number }; Project?: { Process?: { Id: number } } }>(
           response,
-          `create ${validatedType}`
+          `get ${validatedType} ${id}`
         );
-      }, `create ${validatedType}`);
+      }, `get ${validatedType} ${id}`));
+
+      return validatedType === 'Project' ? entity.Process?.Id : entity.Project?.Process?.Id;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
       }
-      
+
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to create ${type}: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get process of ${type} ${id}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
 
   /**
-   * Update an existing entity
+   * Custom fields defined for an entity type in a process; without a process,
+   * the fields of entities outside any process (projects, teams, releases)
    */
-  async updateEntity<T>(
-    type: string,
-    id: number,
-    data: UpdateEntityRequest
-  ): Promise<T> {
+  async getCustomFieldDefinitions(type: string, processId?: number): Promise<CustomFieldDefinition[]> {
     try {
-      // Validate entity type (now async)
       const validatedType = await this.validateEntityType(type);
-      
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/${validatedType}s/${id}?${params}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
-        });
+      const processFilter = processId !== undefined ? `Process.Id eq ${processId}` : 'Process is null';
+      const params = new URLSearchParams({
+        format: 'json',
+        where: `(${processFilter}) and (EntityType.Name eq '${validatedType}')`,
+        include: '[Id,Name,FieldType,Value,Required]',
+        orderBy: 'NumericPriority',
+        take: MAX_PAGE_SIZE.toString()
+      });
 
-        return await this.handleApiResponse<T>(
+      return await this.read(`meta:CustomFields?${params}`, { kind: 'meta', type: 'CustomField' }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`CustomFields`, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<CustomFieldDefinition>>(
           response,
-          `update ${validatedType} ${id}`
+          'search CustomFields'
         );
-      }, `update ${validatedType} ${id}`);
+        return data.Items || [];
+      }, 'search CustomFields'));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
       }
-      
+
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to update ${type} ${id}: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get custom fields of ${type}: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -544,23 +1201,19 @@ export class TPService {
    */
   async fetchMetadata(): Promise<any> {
     try {
-      return await this.executeWithRetry(async () => {
+      return await this.read('meta:Index/meta', { kind: 'meta', type: 'meta' }, () => this.executeWithRetry(async () => {
         const params = new URLSearchParams({
-          format: 'json',
-          access_token: this.accessToken
-        });
-        const response = await fetch(`${this.baseUrl}/Index/meta?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
+          format: 'json'
         });
+        const response = await this.request('Index/meta', { params });
 
         // Check if response is OK before trying to parse JSON
         if (!response.ok) {
           const errorMessage = await this.extractErrorMessage(response);
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `fetch metadata failed: ${response.status} - ${errorMessage}`
+          throw new TPHttpError(
+            response.status,
+            `fetch metadata failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
           );
         }
 
@@ -580,14 +1233,14 @@ export class TPService {
           try {
             return JSON.parse(fixedText);
           } catch (fixError) {
-            console.error('Failed to fix and parse JSON response:', fixError);
+            console.error(`Failed to fix and parse JSON response: ${this.describeError(fixError)}`);
             throw new McpError(
               ErrorCode.InvalidRequest,
               `Failed to parse metadata response: ${fixError instanceof Error ? fixError.message : String(fixError)}`
             );
           }
         }
-      }, 'fetch metadata');
+      }, 'fetch metadata'));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -595,7 +1248,7 @@ export class TPService {
       
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to fetch metadata: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to fetch metadata: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -642,11 +1295,10 @@ export class TPService {
       console.error(`Found ${entityTypes.length} valid entity types from API`);
       return entityTypes.sort();
     } catch (error) {
-      console.error('Error fetching valid entity types:', error);
+      console.error(`Error fetching valid entity types: ${this.describeError(error)}`);
       // Provide more detailed error information
-      if (error instanceof Error) {
-        console.error(`Error details: ${error.message}`);
-        console.error(`Error stack: ${error.stack}`);
+      if (error instanceof Error && error.stack) {
+        console.error(`Error stack: ${this.scrub(error.stack)}`);
       }
       
       if (error instanceof McpError) {
@@ -683,7 +1335,7 @@ export class TPService {
         console.error('Entity type cache initialized successfully');
       }
     } catch (error) {
-      console.error('Failed to initialize entity type cache:', error);
+      console.error(`Failed to initialize entity type cache: ${this.describeError(error)}`);
       // Don't throw - we'll retry on first use
     }
   }
@@ -693,22 +1345,19 @@ export class TPService {
    */
   async createComment<T>(data: CreateCommentRequest): Promise<T> {
     try {
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/Comments?${params}`, {
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`Comments`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
+          body: data
         });
 
         return await this.handleApiResponse<T>(
           response,
           'create Comment'
         );
-      }, 'create Comment');
+      }, 'create Comment', { idempotent: false });
+      this.invalidate(data.General.Id);
+      return result;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -716,7 +1365,330 @@ export class TPService {
       
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to create comment: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to create comment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Comments of an entity, oldest first unless newestFirst is set
+   */
+  async getComments<T>(entityId: number, take: number = 100, skip: number = 0, newestFirst: boolean = false): Promise<SearchPage<T>> {
+    try {
+      const params = new URLSearchParams({
+        format: 'json',
+        where: `General.Id eq ${entityId}`,
+        include: '[Id,Description,CreateDate,ModifyDate,ParentId,Owner[Id,FirstName,LastName,Login]]',
+        [newestFirst ? 'orderByDesc' : 'orderBy']: 'CreateDate',
+        take: take.toString()
+      });
+
+      if (skip > 0) {
+        params.append('skip', skip.toString());
+      }
+
+      return await this.read(`search:Comments?${params}`, { kind: 'search', type: 'Comment', id: entityId }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`Comments`, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<T>>(
+          response,
+          'search Comments'
+        );
+        const items = data.Items || [];
+        const nextSkip = this.parseNextSkip(data.Next, skip + items.length);
+
+        return {
+          items,
+          skip,
+          take,
+          hasMore: nextSkip !== undefined,
+          nextSkip,
+          totalCount: nextSkip === undefined ? skip + items.length : undefined
+        };
+      }, 'search Comments'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to get comments: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Update the text of a comment
+   */
+  async updateComment<T>(id: number, data: UpdateCommentRequest): Promise<T> {
+    try {
+      const owners = await this.ownerIds('Comments', id, ['General']);
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`Comments/${id}`, {
+          method: 'POST',
+          body: data
+        });
+
+        return await this.handleApiResponse<T>(
+          response,
+          'update Comment'
+        );
+      }, 'update Comment');
+      this.invalidate(id, ...owners);
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to update comment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Delete a comment
+   */
+  async deleteComment(id: number): Promise<void> {
+    try {
+      const owners = await this.ownerIds('Comments', id, ['General']);
+      await this.executeWithRetry(async () => {
+        const response = await this.request(`Comments/${id}`, { method: 'DELETE' });
+
+        if (!response.ok) {
+          const errorMessage = await this.extractErrorMessage(response);
+          throw new TPHttpError(
+            response.status,
+            `delete Comment failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        }
+      }, 'delete Comment');
+      this.invalidate(id, ...owners);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to delete comment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Size limits and local directory for attachment tools
+   */
+  getAttachmentConfig(): ResolvedAttachmentConfig {
+    return this.attachments;
+  }
+
+  /**
+   * Upload a file and attach it to an entity (any General: story, bug, task, ...)
+   */
+  async uploadAttachment<T>(generalId: number, fileName: string, content: Buffer, mimeType: string): Promise<T> {
+    if (content.length > this.attachments.maxUploadBytes) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Attachment is ${formatBytes(content.length)}; the upload limit is ${formatBytes(this.attachments.maxUploadBytes)}`
+      );
+    }
+
+    try {
+      const result = await this.executeWithRetry(async () => {
+        // A fresh form per attempt: a multipart body can only be sent once
+        const form = new FormData();
+        form.set('generalId', String(generalId));
+        form.set('file', new Blob([new Uint8Array(content)], { type: mimeType }), fileName);
+
+        const response = await this.request('/UploadFile.ashx', {
+          method: 'POST',
+          form
+        });
+
+        return await this.handleApiResponse<T>(
+          response,
+          'upload Attachment'
+        );
+      }, 'upload Attachment', { idempotent: false });
+      this.invalidate(generalId);
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to upload attachment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Attachments of an entity, newest first
+   */
+  async getAttachments<T>(generalId: number): Promise<T[]> {
+    try {
+      const params = new URLSearchParams({
+        format: 'json',
+        where: `General.Id eq ${generalId}`,
+        include: '[Id,Name,Description,Date,Size,MimeType,Owner[Id,FirstName,LastName,Login]]',
+        orderByDesc: 'Date',
+        take: '1000'
+      });
+
+      return await this.read(`search:Attachments?${params}`, { kind: 'search', type: 'Attachment', id: generalId }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`Attachments`, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<T>>(
+          response,
+          'search Attachments'
+        );
+        return data.Items || [];
+      }, 'search Attachments'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to list attachments: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Download the content of an attachment, failing once it exceeds the download limit
+   */
+  async downloadAttachment(id: number): Promise<Buffer> {
+    const limit = this.attachments.maxDownloadBytes;
+    const tooLarge = (bytes: string) => new McpError(
+      ErrorCode.InvalidParams,
+      `Attachment ${id} is ${bytes}; the download limit is ${formatBytes(limit)}`
+    );
+
+    try {
+      return await this.executeWithRetry(async () => {
+        const response = await this.request('/Attachment.aspx', {
+          params: new URLSearchParams({ AttachmentID: String(id) })
+        });
+
+        if (!response.ok) {
+          const errorMessage = await this.extractErrorMessage(response);
+          throw new TPHttpError(
+            response.status,
+            `download Attachment ${id} failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        }
+
+        const declared = Number(response.headers.get('Content-Length'));
+        if (declared > limit) {
+          throw tooLarge(formatBytes(declared));
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        for await (const chunk of response.body ?? []) {
+          received += chunk.length;
+          if (received > limit) {
+            throw tooLarge(`larger than ${formatBytes(limit)}`);
+          }
+          chunks.push(Buffer.from(chunk));
+        }
+        return Buffer.concat(chunks);
+      }, `download Attachment ${id}`);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to download attachment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Find an active user by email or login (case-insensitive in Target Process)
+   */
+  async findUser<T>(emailOrLogin: string): Promise<T | undefined> {
+    try {
+      const value = emailOrLogin.replace(/'/g, "''");
+      const params = new URLSearchParams({
+        format: 'json',
+        where: `((Email eq '${value}') or (Login eq '${value}')) and (IsActive eq 'true')`,
+        include: '[Id,FirstName,LastName,Email,Login]',
+        take: '1'
+      });
+
+      return await this.read(`search:Users?${params}`, { kind: 'search', type: 'User' }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`Users`, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<T>>(
+          response,
+          'search Users'
+        );
+        return data.Items?.[0];
+      }, 'search Users'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to find user: ${this.scrub(error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+
+  /**
+   * Resolve an ID or a human reference (email, login or full name of a user, name
+   * or abbreviation of a project or team, name of anything else) to an ID.
+   * Only unique matches are cached; none or several raise InvalidParams with the candidates.
+   */
+  async resolveReference(kind: ReferenceKind, reference: Reference, scope: ReferenceScope = {}): Promise<number> {
+    const id = referenceId(reference);
+    if (id !== undefined) {
+      return id;
+    }
+
+    const text = String(reference).trim();
+    try {
+      const { collection, where, include } = referenceQuery(kind, text, scope);
+      const params = new URLSearchParams({
+        format: 'json',
+        where,
+        include,
+        take: '10'
+      });
+
+      // Names rarely change, so resolved IDs are kept like metadata rather than dropped on every write
+      return await this.read(`meta:resolve:${collection}?${params}`, { kind: 'meta', type: 'meta' }, () => this.executeWithRetry(async () => {
+        const response = await this.request(collection, { params });
+
+        const data = await this.handleApiResponse<ApiResponse<ReferenceCandidate>>(
+          response,
+          `search ${collection}`
+        );
+        return pickCandidate(kind, text, data.Items || [], Boolean(data.Next));
+      }, `search ${collection}`));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to resolve ${kind} '${text}': ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -726,22 +1698,19 @@ export class TPService {
    */
   async createRelation<T>(data: CreateRelationRequest): Promise<T> {
     try {
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/Relations?${params}`, {
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`Relations`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
+          body: data
         });
 
         return await this.handleApiResponse<T>(
           response,
           'create Relation'
         );
-      }, 'create Relation');
+      }, 'create Relation', { idempotent: false });
+      this.invalidate(data.Master.Id, data.Slave.Id);
+      return result;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -749,7 +1718,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to create relation: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to create relation: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -759,23 +1728,20 @@ export class TPService {
    */
   async deleteRelation(id: number): Promise<void> {
     try {
+      const owners = await this.ownerIds('Relations', id, ['Master', 'Slave']);
       await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/Relations/${id}?${params}`, {
-          method: 'DELETE',
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+        const response = await this.request(`Relations/${id}`, { method: 'DELETE' });
 
         if (!response.ok) {
           const errorMessage = await this.extractErrorMessage(response);
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `delete Relation failed: ${response.status} - ${errorMessage}`
+          throw new TPHttpError(
+            response.status,
+            `delete Relation failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
           );
         }
       }, 'delete Relation');
+      this.invalidate(id, ...owners);
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -783,7 +1749,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to delete relation: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to delete relation: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -800,20 +1766,15 @@ export class TPService {
         take: '100'
       });
 
-      return await this.executeWithRetry(async () => {
-        params.append('access_token', this.accessToken);
-        const response = await fetch(`${this.baseUrl}/Relations?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+      return await this.read(`search:Relations?${params}`, { kind: 'search', type: 'Relation', id: entityId }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`Relations`, { params });
 
         const data = await this.handleApiResponse<ApiResponse<T>>(
           response,
           'search Relations'
         );
         return data.Items || [];
-      }, 'search Relations');
+      }, 'search Relations'));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -821,7 +1782,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to search relations: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to search relations: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -831,22 +1792,19 @@ export class TPService {
    */
   async createAssignment<T>(data: CreateAssignmentRequest): Promise<T> {
     try {
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/Assignments?${params}`, {
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`Assignments`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
+          body: data
         });
 
         return await this.handleApiResponse<T>(
           response,
           'create Assignment'
         );
-      }, 'create Assignment');
+      }, 'create Assignment', { idempotent: false });
+      this.invalidate(data.Assignable.Id);
+      return result;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -854,7 +1812,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to create assignment: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to create assignment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -864,23 +1822,20 @@ export class TPService {
    */
   async deleteAssignment(id: number): Promise<void> {
     try {
+      const owners = await this.ownerIds('Assignments', id, ['Assignable']);
       await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/Assignments/${id}?${params}`, {
-          method: 'DELETE',
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+        const response = await this.request(`Assignments/${id}`, { method: 'DELETE' });
 
         if (!response.ok) {
           const errorMessage = await this.extractErrorMessage(response);
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `delete Assignment failed: ${response.status} - ${errorMessage}`
+          throw new TPHttpError(
+            response.status,
+            `delete Assignment failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
           );
         }
       }, 'delete Assignment');
+      this.invalidate(id, ...owners);
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -888,7 +1843,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to delete assignment: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to delete assignment: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -905,20 +1860,15 @@ export class TPService {
         take: '100'
       });
 
-      return await this.executeWithRetry(async () => {
-        params.append('access_token', this.accessToken);
-        const response = await fetch(`${this.baseUrl}/Assignments?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+      return await this.read(`search:Assignments?${params}`, { kind: 'search', type: 'Assignment', id: entityId }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`Assignments`, { params });
 
         const data = await this.handleApiResponse<ApiResponse<T>>(
           response,
           'search Assignments'
         );
         return data.Items || [];
-      }, 'search Assignments');
+      }, 'search Assignments'));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -926,7 +1876,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to search assignments: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to search assignments: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -936,22 +1886,19 @@ export class TPService {
    */
   async createRoleEffort<T>(data: CreateRoleEffortRequest): Promise<T> {
     try {
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/RoleEfforts?${params}`, {
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`RoleEfforts`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
+          body: data
         });
 
         return await this.handleApiResponse<T>(
           response,
           'create RoleEffort'
         );
-      }, 'create RoleEffort');
+      }, 'create RoleEffort', { idempotent: false });
+      this.invalidate(data.Assignable.Id);
+      return result;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -959,7 +1906,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to create role effort: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to create role effort: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -969,15 +1916,11 @@ export class TPService {
    */
   async updateRoleEffort<T>(id: number, data: UpdateRoleEffortRequest): Promise<T> {
     try {
-      return await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/RoleEfforts/${id}?${params}`, {
+      const owners = await this.ownerIds('RoleEfforts', id, ['Assignable']);
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.request(`RoleEfforts/${id}`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(data)
+          body: data
         });
 
         return await this.handleApiResponse<T>(
@@ -985,6 +1928,8 @@ export class TPService {
           'update RoleEffort'
         );
       }, 'update RoleEffort');
+      this.invalidate(id, ...owners);
+      return result;
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -992,7 +1937,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to update role effort: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to update role effort: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -1002,23 +1947,20 @@ export class TPService {
    */
   async deleteRoleEffort(id: number): Promise<void> {
     try {
+      const owners = await this.ownerIds('RoleEfforts', id, ['Assignable']);
       await this.executeWithRetry(async () => {
-        const params = new URLSearchParams({ access_token: this.accessToken });
-        const response = await fetch(`${this.baseUrl}/RoleEfforts/${id}?${params}`, {
-          method: 'DELETE',
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+        const response = await this.request(`RoleEfforts/${id}`, { method: 'DELETE' });
 
         if (!response.ok) {
           const errorMessage = await this.extractErrorMessage(response);
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `delete RoleEffort failed: ${response.status} - ${errorMessage}`
+          throw new TPHttpError(
+            response.status,
+            `delete RoleEffort failed: ${response.status} - ${errorMessage}`,
+            parseRetryAfter(response.headers.get('Retry-After'))
           );
         }
       }, 'delete RoleEffort');
+      this.invalidate(id, ...owners);
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -1026,7 +1968,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to delete role effort: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to delete role effort: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
@@ -1043,20 +1985,15 @@ export class TPService {
         take: '100'
       });
 
-      return await this.executeWithRetry(async () => {
-        params.append('access_token', this.accessToken);
-        const response = await fetch(`${this.baseUrl}/RoleEfforts?${params}`, {
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
+      return await this.read(`search:RoleEfforts?${params}`, { kind: 'search', type: 'RoleEffort', id: entityId }, () => this.executeWithRetry(async () => {
+        const response = await this.request(`RoleEfforts`, { params });
 
         const data = await this.handleApiResponse<ApiResponse<T>>(
           response,
           'search RoleEfforts'
         );
         return data.Items || [];
-      }, 'search RoleEfforts');
+      }, 'search RoleEfforts'));
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -1064,7 +2001,7 @@ export class TPService {
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Failed to search role efforts: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to search role efforts: ${this.scrub(error instanceof Error ? error.message : String(error))}`
       );
     }
   }
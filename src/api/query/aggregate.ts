@@ -0,0 +1,131 @@
+export type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface AggregateMetric {
+  op: AggregateOperation;
+  /** Numeric field for sum/avg/min/max, e.g. Effort or TimeSpent */
+  field?: string;
+}
+
+/**
+ * One item reduced to its group key values and metric field values
+ */
+export interface AggregateRow {
+  keys: unknown[];
+  values: unknown[];
+}
+
+export interface AggregateGroup {
+  key: Record<string, unknown>;
+  values: Record<string, number | null>;
+}
+
+export interface AggregateQuery {
+  /** Filter in v1 syntax, as for search_entities */
+  where?: string;
+  groupBy?: string[];
+  metrics: AggregateMetric[];
+  /** Most items to read when the groups are computed locally */
+  maxItems?: number;
+}
+
+export interface AggregateResult {
+  groups: AggregateGroup[];
+  /** Where the aggregation was computed: API v2 or paginated API v1 reads */
+  source: 'v2' | 'v1';
+  /** Items read to compute the groups, when they were computed locally */
+  scannedItems?: number;
+  /** True when maxItems was reached and the groups do not cover every match */
+  truncated: boolean;
+}
+
+/**
+ * Label used for a metric in results, e.g. count or sum(Effort)
+ */
+export function metricLabel(metric: AggregateMetric): string {
+  return metric.op === 'count' ? 'count' : `${metric.op}(${metric.field})`;
+}
+
+/**
+ * Top-level v1 includes needed to resolve the given field paths; custom field
+ * values live in the CustomFields collection
+ */
+export function includesForFields(fields: string[]): string[] {
+  return [...new Set(fields.map(field => field.startsWith('CustomField.') ? 'CustomFields' : field.split('.')[0]))];
+}
+
+/**
+ * Resolve a dotted path like EntityState.Name on an API item. Collections are
+ * traversed element by element, so Tasks.Items.Name yields an array of names.
+ */
+export function getPath(item: unknown, path: string): unknown {
+  if (path.startsWith('CustomField.')) {
+    const customFields = (item as { CustomFields?: { Name?: string; Value?: unknown }[] } | undefined)?.CustomFields;
+    return Array.isArray(customFields)
+      ? customFields.find(field => field?.Name === path.substring(12))?.Value
+      : undefined;
+  }
+
+  const step = (value: unknown, part: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(element => step(element, part));
+    }
+    return value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+  };
+
+  return path.split('.').reduce<unknown>(step, item);
+}
+
+/**
+ * Group rows by their key values and compute the metrics for each group.
+ * Missing or non-numeric values are ignored by sum/avg/min/max.
+ */
+export function aggregateRows(
+  rows: AggregateRow[],
+  groupBy: string[],
+  metrics: AggregateMetric[]
+): AggregateGroup[] {
+  const groups = new Map<string, { keys: unknown[]; count: number; numbers: number[][] }>();
+
+  for (const row of rows) {
+    const keys = row.keys.map(key => key ?? null);
+    const id = JSON.stringify(keys);
+    let group = groups.get(id);
+    if (!group) {
+      group = { keys, count: 0, numbers: metrics.map(() => []) };
+      groups.set(id, group);
+    }
+
+    group.count++;
+    metrics.forEach((_, index) => {
+      const value = row.values[index];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        group!.numbers[index].push(value);
+      }
+    });
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => ({
+      key: Object.fromEntries(groupBy.map((field, index) => [field, group.keys[index]])),
+      values: Object.fromEntries(metrics.map((metric, index) => [
+        metricLabel(metric),
+        computeMetric(metric.op, group.count, group.numbers[index]),
+      ])),
+    }));
+}
+
+function computeMetric(op: AggregateOperation, count: number, numbers: number[]): number | null {
+  switch (op) {
+    case 'count':
+      return count;
+    case 'sum':
+      return numbers.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return numbers.length ? numbers.reduce((total, value) => total + value, 0) / numbers.length : null;
+    case 'min':
+      return numbers.length ? Math.min(...numbers) : null;
+    case 'max':
+      return numbers.length ? Math.max(...numbers) : null;
+  }
+}
@@ -0,0 +1,495 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Tokenizer, parser and serializer for the Target Process v1 query language
+ * used in `where` parameters.
+ *
+ * Grammar:
+ *   expr       := or
+ *   or         := and ('or' and)*
+ *   and        := unary ('and' unary)*
+ *   unary      := 'not' unary | '(' expr ')' | condition
+ *   condition  := field 'is' ['not'] 'null'
+ *               | field ['not'] 'in' list
+ *               | field ['not'] 'contains' value
+ *               | field op value
+ *   op         := eq | ne | gt | gte | lt | lte
+ *   list       := '(' value (',' value)* ')' | '[' value (',' value)* ']'
+ *   value      := 'string' | "string" | number | true | false | @Macro | bare word
+ *   field      := Name | Path.To.Field | CustomField.Name
+ */
+
+type TokenType = 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'string' | 'number' | 'macro' | 'word' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value: string;
+  position: number;
+}
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'not contains';
+
+export type WhereValue =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'macro'; value: string };
+
+export type WhereNode =
+  | { kind: 'and' | 'or'; children: WhereNode[] }
+  | { kind: 'not'; operand: WhereNode }
+  | { kind: 'comparison'; field: string; operator: ComparisonOperator; value: WhereValue }
+  | { kind: 'null'; field: string; negated: boolean }
+  | { kind: 'in'; field: string; values: WhereValue[]; negated: boolean };
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'];
+
+const NEGATED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+  eq: 'ne',
+  ne: 'eq',
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt',
+  contains: 'not contains',
+  'not contains': 'contains',
+};
+
+const KEYWORDS = ['and', 'or', 'not', 'is', 'null', 'in', 'contains', ...COMPARISON_OPERATORS];
+
+class WhereSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const punctuation: Record<string, TokenType> = {
+      '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma'
+    };
+    if (punctuation[char]) {
+      tokens.push({ type: punctuation[char], text: char, value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      // A doubled quote inside a string is an escaped quote: 'it''s'
+      const start = i;
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= input.length) {
+          throw new WhereSyntaxError('Unterminated string', start);
+        }
+        if (input[i] === char) {
+          if (input[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += input[i];
+        i++;
+      }
+      tokens.push({ type: 'string', text: input.slice(start, i), value, position: start });
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?(?![A-Za-z_])/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const macro = /^@[A-Za-z]+([+-]\d+)?/.exec(input.slice(i));
+    if (macro) {
+      tokens.push({ type: 'macro', text: macro[0], value: macro[0], position: i });
+      i += macro[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(input.slice(i));
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new WhereSyntaxError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'eof', text: '', value: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): WhereNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new WhereSyntaxError(
+        `Unexpected ${this.describe(token)}; expected 'and', 'or' or end of expression (quote values that contain spaces)`,
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): WhereNode {
+    const children = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): WhereNode {
+    const children = [this.parseUnary()];
+    while (this.isKeyword(this.peek(), 'and')) {
+      this.next();
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): WhereNode {
+    const token = this.peek();
+
+    if (this.isKeyword(token, 'not')) {
+      this.next();
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+
+    if (token.type === 'lparen') {
+      this.next();
+      const node = this.parseOr();
+      this.expect('rparen', `')' to close the group opened at position ${token.position}`);
+      return node;
+    }
+
+    return this.parseCondition();
+  }
+
+  private parseCondition(): WhereNode {
+    const fieldToken = this.peek();
+    if (fieldToken.type !== 'word' || KEYWORDS.includes(fieldToken.value.toLowerCase())) {
+      throw new WhereSyntaxError(`Expected a field name but found ${this.describe(fieldToken)}`, fieldToken.position);
+    }
+    this.next();
+    const field = fieldToken.value;
+
+    const operatorToken = this.next();
+    const operator = operatorToken.type === 'word' ? operatorToken.value.toLowerCase() : '';
+
+    if (operator === 'is') {
+      const negated = this.isKeyword(this.peek(), 'not');
+      if (negated) {
+        this.next();
+      }
+      const nullToken = this.next();
+      if (!this.isKeyword(nullToken, 'null')) {
+        throw new WhereSyntaxError(`Expected 'null' after 'is${negated ? ' not' : ''}' but found ${this.describe(nullToken)}`, nullToken.position);
+      }
+      return { kind: 'null', field, negated };
+    }
+
+    if (operator === 'not') {
+      const next = this.next();
+      if (this.isKeyword(next, 'in')) {
+        return { kind: 'in', field, values: this.parseList(), negated: true };
+      }
+      if (this.isKeyword(next, 'contains')) {
+        return { kind: 'comparison', field, operator: 'not contains', value: this.parseValue('not contains') };
+      }
+      throw new WhereSyntaxError(`Expected 'in' or 'contains' after 'not' but found ${this.describe(next)}`, next.position);
+    }
+
+    if (operator === 'in') {
+      return { kind: 'in', field, values: this.parseList(), negated: false };
+    }
+
+    if (operator === 'contains' || COMPARISON_OPERATORS.includes(operator)) {
+      return { kind: 'comparison', field, operator: operator as ComparisonOperator, value: this.parseValue(operator) };
+    }
+
+    throw new WhereSyntaxError(
+      `Expected an operator (eq, ne, gt, gte, lt, lte, contains, not contains, in, not in, is null, is not null) after '${field}' but found ${this.describe(operatorToken)}`,
+      operatorToken.position
+    );
+  }
+
+  private parseList(): WhereValue[] {
+    const open = this.next();
+    if (open.type !== 'lparen' && open.type !== 'lbracket') {
+      throw new WhereSyntaxError(`Expected a list like ('a', 'b') after 'in' but found ${this.describe(open)}`, open.position);
+    }
+    const close: TokenType = open.type === 'lparen' ? 'rparen' : 'rbracket';
+
+    const values = [this.parseValue('in')];
+    while (this.peek().type === 'comma') {
+      this.next();
+      values.push(this.parseValue('in'));
+    }
+    this.expect(close, `'${close === 'rparen' ? ')' : ']'}' to close the list opened at position ${open.position}`);
+    return values;
+  }
+
+  private parseValue(operator: string): WhereValue {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'number':
+        return { kind: 'number', value: Number(token.value) };
+      case 'macro':
+        return { kind: 'macro', value: token.value };
+      case 'word': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+          return { kind: 'boolean', value: lower === 'true' };
+        }
+        if (lower === 'null') {
+          throw new WhereSyntaxError(`Use 'is null' or 'is not null' instead of '${operator} null'`, token.position);
+        }
+        if (KEYWORDS.includes(lower)) {
+          break;
+        }
+        // Unquoted single word, e.g. EntityState.Name eq Open
+        return { kind: 'string', value: token.value };
+      }
+    }
+
+    throw new WhereSyntaxError(`Expected a value after '${operator}' but found ${this.describe(token)}`, token.position);
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new WhereSyntaxError(`Expected ${description} but found ${this.describe(token)}`, token.position);
+    }
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of expression' : `'${token.text}'`;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+}
+
+/**
+ * Push `not` down to the conditions, since the API has no generic negation
+ */
+function negate(node: WhereNode): WhereNode {
+  switch (node.kind) {
+    case 'and':
+      return { kind: 'or', children: node.children.map(negate) };
+    case 'or':
+      return { kind: 'and', children: node.children.map(negate) };
+    case 'not':
+      return eliminateNot(node.operand);
+    case 'comparison':
+      return { ...node, operator: NEGATED_OPERATORS[node.operator] };
+    case 'null':
+    case 'in':
+      return { ...node, negated: !node.negated };
+  }
+}
+
+function eliminateNot(node: WhereNode): WhereNode {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return { kind: node.kind, children: node.children.map(eliminateNot) };
+    case 'not':
+      return negate(node.operand);
+    default:
+      return node;
+  }
+}
+
+function serializeValue(value: WhereValue): string {
+  switch (value.kind) {
+    case 'number':
+      return String(value.value);
+    case 'macro':
+      return value.value;
+    case 'boolean':
+      return `'${value.value}'`;
+    case 'string':
+      return `'${value.value.replace(/'/g, "''")}'`;
+  }
+}
+
+/**
+ * Parse a where clause into an AST, throwing McpError with the position of the problem
+ */
+export function parseWhere(where: string): WhereNode {
+  if (!where || !where.trim()) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Empty where clause');
+  }
+
+  try {
+    return new Parser(tokenize(where)).parse();
+  } catch (error) {
+    if (error instanceof WhereSyntaxError) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid where clause: ${error.message} at position ${error.position}\n  ${where}\n  ${' '.repeat(error.position)}^`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serialize an AST to Target Process API syntax
+ */
+export function serializeWhere(
+  node: WhereNode,
+  formatField: (field: string) => string = field => field
+): string {
+  const serialize = (current: WhereNode): string => {
+    switch (current.kind) {
+      case 'and':
+      case 'or':
+        // The API does not reliably apply 'and' before 'or', so every operand gets its own parentheses
+        return current.children.map(child => `(${serialize(child)})`).join(` ${current.kind} `);
+      case 'not':
+        return serialize(negate(current.operand));
+      case 'comparison':
+        return `${formatField(current.field)} ${current.operator} ${serializeValue(current.value)}`;
+      case 'null':
+        return `${formatField(current.field)} is ${current.negated ? 'not ' : ''}null`;
+      case 'in':
+        return `${formatField(current.field)} ${current.negated ? 'not in' : 'in'} (${current.values.map(serializeValue).join(',')})`;
+    }
+  };
+
+  return serialize(eliminateNot(node));
+}
+
+/**
+ * Validate a where clause and re-serialize it to API syntax
+ */
+export function normalizeWhereClause(
+  where: string,
+  formatField?: (field: string) => string
+): string {
+  return serializeWhere(parseWhere(where), formatField);
+}
+
+const V2_OPERATORS: Partial<Record<ComparisonOperator, string>> = {
+  eq: '==',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Convert a v1 field path to API v2 notation: EntityState.Name -> entityState.name
+ */
+export function toV2Field(field: string): string | null {
+  if (field.startsWith('CustomField.') || field.startsWith('cf_')) {
+    return null;
+  }
+  return field.split('.').map(part => part.charAt(0).toLowerCase() + part.slice(1)).join('.');
+}
+
+/**
+ * Serialize an AST to API v2 syntax, or return null when the clause uses
+ * something without a known v2 equivalent (date macros, custom fields,
+ * not in, not contains), so the caller can fall back to API v1
+ */
+export function serializeWhereV2(node: WhereNode): string | null {
+  const value = (current: WhereValue): string | null => {
+    switch (current.kind) {
+      case 'number':
+        return String(current.value);
+      case 'boolean':
+        return String(current.value);
+      case 'string':
+        // v1 clauses quote booleans ('false'); v2 needs them bare
+        return ['true', 'false'].includes(current.value.toLowerCase())
+          ? current.value.toLowerCase()
+          : JSON.stringify(current.value);
+      case 'macro':
+        return null;
+    }
+  };
+
+  const serialize = (current: WhereNode): string | null => {
+    switch (current.kind) {
+      case 'and':
+      case 'or': {
+        const children = current.children.map(serialize);
+        return children.includes(null) ? null : `(${children.join(` ${current.kind} `)})`;
+      }
+      case 'not':
+        return serialize(negate(current.operand));
+      case 'comparison': {
+        const field = toV2Field(current.field);
+        const formatted = value(current.value);
+        if (!field || formatted === null) {
+          return null;
+        }
+        if (current.operator === 'contains') {
+          return `${field}.contains(${formatted})`;
+        }
+        const operator = V2_OPERATORS[current.operator];
+        return operator ? `${field}${operator}${formatted}` : null;
+      }
+      case 'null': {
+        const field = toV2Field(current.field);
+        return field ? `${field}${current.negated ? '!=' : '=='}null` : null;
+      }
+      case 'in': {
+        const field = toV2Field(current.field);
+        const values = current.values.map(value);
+        return field && !current.negated && !values.includes(null) ? `${field} in [${values.join(',')}]` : null;
+      }
+    }
+  };
+
+  // v2 expects the whole clause in parentheses; groups already have them
+  const result = serialize(eliminateNot(node));
+  return result && (result.startsWith('(') ? result : `(${result})`);
+}
@@ -25,6 +25,7 @@ export interface User extends EntityReference {
   FirstName: string;
   LastName: string;
   Login: string;
+  Email?: string;
 }
 
 export interface Priority extends EntityReference {
@@ -0,0 +1,148 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  laquo: '«',
+  raquo: '»',
+};
+
+const BLOCK_TAGS = ['p', 'div', 'section', 'article', 'header', 'footer', 'table', 'tbody', 'thead'];
+const BLOCK_PATTERN = new RegExp(`</?(${BLOCK_TAGS.join('|')})(\\s[^>]*)?>`, 'gi');
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Heuristic check for HTML markup, so plain text is left alone
+ */
+export function looksLikeHtml(text: string): boolean {
+  return /<\/?[a-z][a-z0-9]*(\s[^>]*)?\/?>/i.test(text);
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4]) : undefined;
+}
+
+/**
+ * Convert the HTML produced by the Target Process rich text editor to Markdown.
+ * Covers headings, paragraphs, emphasis, links, images, lists, code, quotes and
+ * simple tables; unknown tags are dropped and their text is kept.
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = html.replace(/\r\n?/g, '\n');
+
+  // Remove content that never renders as text
+  text = text.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '');
+  text = text.replace(/<!--[\s\S]*?-->/g, '');
+
+  // Preformatted blocks keep their content verbatim; a private-use code point marks where each goes back in
+  const codeBlocks: string[] = [];
+  text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, content: string) => {
+    const code = decodeEntities(content.replace(/<\/?code[^>]*>/gi, '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''));
+    codeBlocks.push('\n\n```\n' + code.replace(/\n+$/, '') + '\n```\n\n');
+    return `\uE000${codeBlocks.length - 1}\uE000`;
+  });
+
+  // Whitespace in the remaining HTML is not significant
+  text = text.replace(/\s+/g, ' ');
+
+  text = text.replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, content: string) =>
+    `\n\n${'#'.repeat(Number(level))} ${content.trim()}\n\n`);
+  text = text.replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, _attrs, content: string) =>
+    content.trim() ? `**${content.trim()}**` : '');
+  text = text.replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, _attrs, content: string) =>
+    content.trim() ? `_${content.trim()}_` : '');
+  text = text.replace(/<(s|strike|del)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, _attrs, content: string) => `~~${content}~~`);
+  text = text.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_, content: string) => `\`${content}\``);
+  text = text.replace(/<a\s[^>]*>([\s\S]*?)<\/a>/gi, (tag: string, content: string) => {
+    const href = attribute(tag, 'href');
+    const label = content.trim();
+    return href && href !== label ? `[${label || href}](${href})` : label;
+  });
+  text = text.replace(/<img\s[^>]*>/gi, (tag: string) => {
+    const src = attribute(tag, 'src');
+    return src ? `![${attribute(tag, 'alt') || ''}](${src})` : '';
+  });
+
+  text = convertLists(text);
+
+  text = text.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, content: string) => {
+    // Paragraphs inside the quote become quoted lines rather than breaking out of it
+    const lines = content.replace(/<br\s*\/?>/gi, '\n').replace(BLOCK_PATTERN, '\n\n').trim().replace(/\n{3,}/g, '\n\n');
+    return '\n\n' + lines.split(/\n/).map(line => line.trim() ? `> ${line.trim()}` : '>').join('\n') + '\n\n';
+  });
+
+  // Tables: one line per row, cells separated by pipes, a separator after the first row
+  text = text.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => {
+    const rows = [...table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(row =>
+      [...row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(cell => cell[1].replace(/<[^>]+>/g, '').trim().replace(/\|/g, '\\|')));
+    if (rows.length === 0) {
+      return '';
+    }
+    const lines = rows.map(cells => `| ${cells.join(' | ')} |`);
+    lines.splice(1, 0, `| ${rows[0].map(() => '---').join(' | ')} |`);
+    return `\n\n${lines.join('\n')}\n\n`;
+  });
+
+  text = text.replace(/<br\s*\/?>/gi, '\n');
+  text = text.replace(/<hr\s*\/?>/gi, '\n\n---\n\n');
+  text = text.replace(BLOCK_PATTERN, '\n\n');
+
+  // Drop any remaining tags, keeping their text
+  text = text.replace(/<[^>]+>/g, '');
+  text = decodeEntities(text);
+
+  text = text.replace(/\uE000(\d+)\uE000/g, (_, index: string) => codeBlocks[Number(index)]);
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/g, '').replace(/^ (?=\S)/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Convert nested <ul>/<ol> lists, innermost first
+ */
+function convertLists(html: string): string {
+  const innermost = /<(ul|ol)[^>]*>((?:(?!<(?:ul|ol)[\s>])[\s\S])*?)<\/\1>/i;
+  let text = html;
+  let match: RegExpExecArray | null;
+
+  while ((match = innermost.exec(text)) !== null) {
+    const [whole, tag, body] = match;
+    const items = [...body.matchAll(/<li[^>]*>([\s\S]*?)(?=<li[\s>]|$)/gi)]
+      // Paragraphs inside list items would otherwise break the item apart
+      .map(item => item[1].replace(/<\/li>/gi, '').replace(BLOCK_PATTERN, ' ').trim())
+      .filter(Boolean);
+
+    const list = items.map((item, index) => {
+      const marker = tag.toLowerCase() === 'ol' ? `${index + 1}.` : '-';
+      // Nested lists were already converted; indent their lines under this item
+      const [first, ...rest] = item.split('\n').filter(line => line.trim());
+      return [`${marker} ${first}`, ...rest.map(line => `  ${line}`)].join('\n');
+    }).join('\n');
+
+    text = text.slice(0, match.index) + `\n${list}\n` + text.slice(match.index + whole.length);
+  }
+
+  return text;
+}
@@ -0,0 +1,246 @@
+/**
+ * Replaces a mention token (the text after @) with markup, or leaves it as text
+ * when undefined is returned
+ */
+export type MentionRenderer = (token: string) => string | undefined;
+
+const MENTION_PATTERN = /(^|[\s(>])@([\w+-]+(?:[.'][\w+-]+)*(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * @email and @login tokens in Markdown text, outside code
+ */
+export function findMentions(markdown: string): string[] {
+  const text = markdown
+    .replace(/^\s*(`{3,}|~{3,})[\s\S]*?^\s*\1\s*$/gm, '')
+    .replace(/`[^`\n]*`/g, '');
+  return [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[2]))];
+}
+
+/**
+ * Convert Markdown to the HTML that the Target Process rich text editor renders:
+ * headings, paragraphs, emphasis, links, images, nested lists, code blocks,
+ * quotes, tables and horizontal rules
+ */
+export function markdownToHtml(markdown: string, mention?: MentionRenderer): string {
+  return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), mention);
+}
+
+function isOrdered(listItem: string): boolean {
+  return /\d/.test(LIST_ITEM_PATTERN.exec(listItem)![2]);
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+}
+
+function renderBlocks(lines: string[], mention?: MentionRenderer): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) {
+      html.push(`<p>${paragraph.map(line => renderInline(line.trim(), mention)).join('<br />')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2], mention)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      html.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s{0,3}>\s?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted, mention)}</blockquote>`);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      flush();
+      const rows: string[] = [line];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(lines[i]);
+        i++;
+      }
+      html.push(renderTable(rows, mention));
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flush();
+      const list: string[] = [];
+      const ordered = isOrdered(line);
+      // A list continues over indented lines and single blank lines followed by more list content;
+      // an item of the other kind at the same level starts a new list
+      while (i < lines.length) {
+        const current = lines[i];
+        if (current.trim()) {
+          const sameLevel = indentOf(current) <= indentOf(line) + 1;
+          if (list.length && sameLevel && (LIST_ITEM_PATTERN.test(current) ? isOrdered(current) !== ordered : true)) {
+            break;
+          }
+          list.push(current);
+        } else if (!(i + 1 < lines.length && (LIST_ITEM_PATTERN.test(lines[i + 1]) || indentOf(lines[i + 1]) > indentOf(list[0])))) {
+          break;
+        }
+        i++;
+      }
+      html.push(renderList(list, mention));
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flush();
+  return html.join('');
+}
+
+/**
+ * Render list lines; lines indented deeper than an item belong to it and are
+ * rendered as nested blocks
+ */
+function renderList(lines: string[], mention?: MentionRenderer): string {
+  const baseIndent = indentOf(lines[0]);
+  const first = LIST_ITEM_PATTERN.exec(lines[0])!;
+  const ordered = isOrdered(lines[0]);
+  const items: { text: string; nested: string[] }[] = [];
+
+  for (const line of lines) {
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item && indentOf(line) <= baseIndent + 1) {
+      items.push({ text: item[3], nested: [] });
+    } else {
+      items[items.length - 1].nested.push(line);
+    }
+  }
+
+  const body = items.map(({ text, nested }) => {
+    const nestedIndent = Math.min(...nested.map(indentOf));
+    const children = nested.length
+      ? renderBlocks(nested.map(line => line.replace(/\t/g, '    ').slice(nestedIndent)), mention)
+        // A bare continuation line would otherwise become a separate paragraph
+        .replace(/^<p>([\s\S]*?)<\/p>/, ' $1')
+      : '';
+    return `<li>${renderInline(text, mention)}${children}</li>`;
+  }).join('');
+
+  const start = ordered && parseInt(first[2], 10) !== 1 ? ` start="${parseInt(first[2], 10)}"` : '';
+  return ordered ? `<ol${start}>${body}</ol>` : `<ul>${body}</ul>`;
+}
+
+function renderTable(rows: string[], mention?: MentionRenderer): string {
+  const cells = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+  const [header, ...body] = rows.map(cells);
+  return '<table><thead><tr>'
+    + header.map(cell => `<th>${renderInline(cell, mention)}</th>`).join('')
+    + '</tr></thead><tbody>'
+    + body.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell, mention)}</td>`).join('')}</tr>`).join('')
+    + '</tbody></table>';
+}
+
+/**
+ * Links and images may point to http(s), mailto or relative URLs; javascript:
+ * and other schemes are dropped so that the rendered HTML cannot run script
+ */
+function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Inline Markdown. Code, links and mentions are set aside first so that their
+ * content is not read as emphasis.
+ */
+function renderInline(text: string, mention?: MentionRenderer): string {
+  const kept: string[] = [];
+  // A private-use code point marks where set-aside markup goes back in
+  const keep = (html: string) => `\uE000${kept.push(html) - 1}\uE000`;
+
+  let result = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code: string) => keep(`<code>${escapeHtml(code.trim())}</code>`));
+
+  // Backslash escapes of Markdown punctuation
+  result = result.replace(/\\([\\`*_{}[\]()#+\-.!|~@])/g, (_, char: string) => keep(escapeHtml(char)));
+
+  // An image or link with a disallowed URL keeps only its text
+  result = result.replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g, (_, alt: string, src: string, title?: string) =>
+    keep(isSafeUrl(src)
+      ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${title ? ` title="${escapeHtml(title)}"` : ''} />`
+      : escapeHtml(alt)));
+  result = result.replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g, (_, label: string, href: string, title?: string) =>
+    keep(isSafeUrl(href)
+      ? `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''}>${renderInline(label, mention)}</a>`
+      : renderInline(label, mention)));
+  result = result.replace(/<(https?:\/\/[^>\s]+)>/g, (_, url: string) => keep(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+  if (mention) {
+    result = result.replace(MENTION_PATTERN, (match, prefix: string, token: string) => {
+      const html = mention(token);
+      return html ? `${prefix}${keep(html)}` : match;
+    });
+  }
+
+  result = escapeHtml(result);
+
+  result = result
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_, index: string) => kept[Number(index)]);
+}
@@ -0,0 +1,107 @@
+import { getPath } from '../api/query/aggregate.js';
+
+export const OUTPUT_FORMATS = ['json', 'compact-json', 'markdown-table', 'csv', 'ndjson'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Keep only the requested dot paths of an item, keyed by the path
+ * (e.g. { "Id": 1, "AssignedUser.Email": "..." })
+ */
+export function projectFields(item: unknown, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, getPath(item, field) ?? null]));
+}
+
+/**
+ * Flatten nested objects into dot paths for tabular output; arrays stay whole
+ */
+function flatten(value: unknown, prefix = '', target: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, target);
+    }
+  } else if (prefix) {
+    target[prefix] = value;
+  }
+  return target;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toRows(items: unknown[], fields?: string[]): { columns: string[]; rows: Record<string, unknown>[] } {
+  const rows = items.map(item => flatten(item));
+  const columns = fields?.length
+    ? fields
+    : [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { columns, rows };
+}
+
+function markdownTable(items: unknown[], fields?: string[]): string {
+  const { columns, rows } = toRows(items, fields);
+  if (columns.length === 0) {
+    return '_No results_';
+  }
+
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  return [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => escape(cellText(row[column]))).join(' | ')} |`),
+  ].join('\n');
+}
+
+function csv(items: unknown[], fields?: string[]): string {
+  const { columns, rows } = toRows(items, fields);
+  const quote = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  return [
+    columns.map(quote).join(','),
+    ...rows.map(row => columns.map(column => quote(cellText(row[column]))).join(',')),
+  ].join('\r\n');
+}
+
+/**
+ * Render tool data in the requested format. A list is rendered as rows; `meta`
+ * (such as paging) stays part of the JSON formats and is returned as a separate
+ * JSON block for the line and table formats.
+ */
+export function formatOutput(
+  data: unknown,
+  format: OutputFormat = 'json',
+  options: { fields?: string[]; meta?: Record<string, unknown> } = {}
+): TextContent[] {
+  const { fields, meta } = options;
+  const isList = Array.isArray(data);
+  const items = (isList ? data : [data]).map(item => fields?.length ? projectFields(item, fields) : item);
+
+  if (format === 'json' || format === 'compact-json') {
+    const payload = isList ? (meta ? { items, ...meta } : items) : items[0];
+    return [{ type: 'text', text: format === 'json' ? JSON.stringify(payload, null, 2) : JSON.stringify(payload) }];
+  }
+
+  let text: string;
+  switch (format) {
+    case 'markdown-table':
+      text = markdownTable(items, fields);
+      break;
+    case 'csv':
+      text = csv(items, fields);
+      break;
+    case 'ndjson':
+      text = items.map(item => JSON.stringify(item)).join('\n');
+      break;
+  }
+
+  return meta
+    ? [{ type: 'text', text }, { type: 'text', text: JSON.stringify(meta) }]
+    : [{ type: 'text', text }];
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from 'node:crypto';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TextContent } from './output.formatter.js';
+
+export interface ResponseBudgetConfig {
+  /** Maximum characters of text in one tool response (default: 100000) */
+  maxResponseChars?: number;
+  /** How long the remainder of a truncated response stays available (default: 600) */
+  continuationTtlSeconds?: number;
+  /** Truncated responses kept for fetch_more; the oldest is dropped first (default: 20) */
+  maxContinuations?: number;
+}
+
+/**
+ * Renders a slice of items together with metadata (paging, truncation)
+ */
+export type ItemsRenderer = (items: unknown[], meta: Record<string, unknown>) => TextContent[];
+
+type Continuation = { expiresAt: number; offset: number } & (
+  | { kind: 'items'; items: unknown[]; render: ItemsRenderer; meta: Record<string, unknown> }
+  | { kind: 'text'; text: string }
+);
+
+const DEFAULT_MAX_RESPONSE_CHARS = 100000;
+const DEFAULT_CONTINUATION_TTL_SECONDS = 600;
+const DEFAULT_MAX_CONTINUATIONS = 20;
+
+/**
+ * Room left in a text page for the truncation notice
+ */
+const NOTICE_RESERVE = 300;
+
+function size(content: { text: string }[]): number {
+  return content.reduce((total, block) => total + block.text.length, 0);
+}
+
+/**
+ * Instance that issued a continuation handle (owner:uuid), if the handle names one
+ */
+export function continuationOwner(handle: unknown): string | undefined {
+  if (typeof handle !== 'string') {
+    return undefined;
+  }
+  const separator = handle.lastIndexOf(':');
+  return separator > 0 ? handle.slice(0, separator) : undefined;
+}
+
+/**
+ * Keeps tool responses within a character budget. Lists are cut at an item
+ * boundary and any other text at a line boundary; the remainder is kept in
+ * memory under a continuation handle that fetch_more pages through.
+ * Handles start with the owning instance, so fetch_more can be routed to it.
+ */
+export class ResponseBudget {
+  private readonly maxChars: number;
+  private readonly ttlMs: number;
+  private readonly maxContinuations: number;
+  private readonly continuations = new Map<string, Continuation>();
+
+  constructor(config: ResponseBudgetConfig = {}, private readonly owner?: string) {
+    this.maxChars = config.maxResponseChars ?? DEFAULT_MAX_RESPONSE_CHARS;
+    this.ttlMs = (config.continuationTtlSeconds ?? DEFAULT_CONTINUATION_TTL_SECONDS) * 1000;
+    this.maxContinuations = config.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+  }
+
+  /**
+   * Render as many items as fit in the budget. A truncated response carries
+   * meta.truncation with the continuation handle for the rest.
+   */
+  fitItems(items: unknown[], render: ItemsRenderer, meta: Record<string, unknown> = {}, maxChars?: number): TextContent[] {
+    const limit = this.limit(maxChars);
+    const content = render(items, meta);
+    if (size(content) <= limit) {
+      return content;
+    }
+
+    return this.itemsPage(this.newHandle(), { kind: 'items', items, render, meta, offset: 0, expiresAt: 0 }, limit);
+  }
+
+  /**
+   * Cut any response text that exceeds the budget
+   */
+  fitText<T extends { type: string; text: string }>(content: T[], maxChars?: number): (T | TextContent)[] {
+    const limit = this.limit(maxChars);
+    if (size(content) <= limit) {
+      return content;
+    }
+
+    const text = content.map(block => block.text).join('\n');
+    return this.textPage(this.newHandle(), { kind: 'text', text, offset: 0, expiresAt: 0 }, limit);
+  }
+
+  /**
+   * Next part of a truncated response
+   */
+  next(handle: string, maxChars?: number): TextContent[] {
+    this.prune();
+    const continuation = this.continuations.get(handle);
+    if (!continuation) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Continuation not found or expired; repeat the original request'
+      );
+    }
+
+    const limit = this.limit(maxChars);
+    return continuation.kind === 'items'
+      ? this.itemsPage(handle, continuation, limit)
+      : this.textPage(handle, continuation, limit);
+  }
+
+  private newHandle(): string {
+    return this.owner ? `${this.owner}:${randomUUID()}` : randomUUID();
+  }
+
+  /**
+   * A per-call budget can only lower the configured one
+   */
+  private limit(maxChars?: number): number {
+    return Math.min(maxChars ?? this.maxChars, this.maxChars);
+  }
+
+  private itemsPage(handle: string, continuation: Continuation & { kind: 'items' }, limit: number): TextContent[] {
+    const { items, offset, render, meta } = continuation;
+    const available = items.length - offset;
+
+    const truncation = (count: number) => available - count > 0
+      ? { returned: count, remaining: available - count, continuation: handle, hint: 'Call fetch_more with this continuation for the next items' }
+      : { returned: count, remaining: 0 };
+    const renderPage = (count: number) =>
+      render(items.slice(offset, offset + count), { ...meta, truncation: truncation(count) });
+
+    // Largest number of items that fits, by binary search over the rendered size
+    let fitting = 0;
+    let low = 1;
+    let high = available;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (size(renderPage(middle)) <= limit) {
+        fitting = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    // A single item larger than the budget is cut; the following items stay available.
+    // The cut may drop the rendered metadata, so the truncation notice is repeated.
+    const count = Math.max(fitting, 1);
+    const content = fitting > 0
+      ? renderPage(count)
+      : [...this.cut(renderPage(count), limit), { type: 'text' as const, text: JSON.stringify({ truncation: truncation(count) }) }];
+
+    continuation.offset += count;
+    this.store(handle, continuation, continuation.offset < items.length);
+
+    return content;
+  }
+
+  private textPage(handle: string, continuation: Continuation & { kind: 'text' }, limit: number): TextContent[] {
+    const { text, offset } = continuation;
+    let end = Math.min(text.length, offset + Math.max(limit - NOTICE_RESERVE, 1));
+
+    // Prefer a line boundary when one is reasonably close
+    if (end < text.length) {
+      const newline = text.lastIndexOf('\n', end);
+      if (newline > offset + (end - offset) / 2) {
+        end = newline + 1;
+      }
+    }
+
+    continuation.offset = end;
+    const remainingChars = text.length - end;
+    this.store(handle, continuation, remainingChars > 0);
+
+    return [
+      { type: 'text', text: text.slice(offset, end) },
+      {
+        type: 'text',
+        text: JSON.stringify({
+          truncation: remainingChars > 0
+            ? { returnedChars: end - offset, remainingChars, continuation: handle, hint: 'Call fetch_more with this continuation for the rest of the response' }
+            : { returnedChars: end - offset, remainingChars: 0 },
+        }),
+      },
+    ];
+  }
+
+  /**
+   * Hard cut of content that cannot be split at an item boundary
+   */
+  private cut(content: TextContent[], limit: number): TextContent[] {
+    let budget = Math.max(limit - NOTICE_RESERVE, 0);
+    const result: TextContent[] = [];
+    for (const block of content) {
+      if (block.text.length > budget) {
+        result.push({ ...block, text: `${block.text.slice(0, budget)}\n… [cut: item exceeds maxResponseChars; request fewer fields]` });
+        break;
+      }
+      result.push(block);
+      budget -= block.text.length;
+    }
+    return result;
+  }
+
+  private store(handle: string, continuation: Continuation, hasMore: boolean): void {
+    this.continuations.delete(handle);
+    if (!hasMore) {
+      return;
+    }
+
+    continuation.expiresAt = Date.now() + this.ttlMs;
+    this.continuations.set(handle, continuation);
+    this.prune();
+  }
+
+  /**
+   * Drop expired continuations and the oldest ones beyond the limit
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [handle, continuation] of this.continuations) {
+      if (continuation.expiresAt <= now || this.continuations.size > this.maxContinuations) {
+        this.continuations.delete(handle);
+      }
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { htmlToMarkdown, looksLikeHtml } from './html.markdown.js';
+
+export interface NormalizerConfig {
+  /** IANA time zone for converted dates (default: UTC) */
+  timeZone?: string;
+  /** Convert HTML descriptions and comments to Markdown (default: true) */
+  htmlToMarkdown?: boolean;
+  /** Remove ResourceType and similar metadata fields (default: true) */
+  stripNoise?: boolean;
+}
+
+/**
+ * Target Process (WCF) JSON dates: /Date(1700000000000+0000)/
+ */
+const TP_DATE_PATTERN = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/;
+
+/**
+ * Fields holding rich text: Description on entities and comments
+ */
+const HTML_FIELDS = new Set(['Description', 'description']);
+
+const NOISE_FIELDS = new Set(['ResourceType', 'resourceType']);
+
+/**
+ * Description of the raw argument of tools that return normalized responses
+ */
+export const RAW_DESCRIPTION = 'Return the API response as is, without converting dates and HTML or removing metadata fields';
+
+/**
+ * Makes API responses cheaper and easier for agents to read: dates become
+ * ISO 8601, rich text becomes Markdown and metadata noise is removed.
+ * Sits between TPService and the tools; tools skip it when called with raw=true.
+ */
+export class ResponseNormalizer {
+  private readonly timeZone: string;
+  private readonly convertHtml: boolean;
+  private readonly stripNoise: boolean;
+  private readonly dateFormat: Intl.DateTimeFormat | null;
+
+  constructor(config: NormalizerConfig = {}) {
+    this.timeZone = config.timeZone || 'UTC';
+    this.convertHtml = config.htmlToMarkdown ?? true;
+    this.stripNoise = config.stripNoise ?? true;
+
+    try {
+      this.dateFormat = this.timeZone === 'UTC' ? null : new Intl.DateTimeFormat('en-US', {
+        timeZone: this.timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+      });
+    } catch {
+      throw new McpError(ErrorCode.InternalError, `Invalid time zone: '${this.timeZone}'`);
+    }
+  }
+
+  normalize<T>(value: T): unknown {
+    return this.normalizeValue(value, undefined);
+  }
+
+  private normalizeValue(value: unknown, key: string | undefined): unknown {
+    if (typeof value === 'string') {
+      const date = TP_DATE_PATTERN.exec(value);
+      if (date) {
+        return this.formatDate(Number(date[1]));
+      }
+      if (this.convertHtml && key && HTML_FIELDS.has(key) && looksLikeHtml(value)) {
+        return htmlToMarkdown(value);
+      }
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalizeValue(item, undefined));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (this.stripNoise && NOISE_FIELDS.has(field)) {
+          continue;
+        }
+        result[field] = this.normalizeValue(fieldValue, field);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * ISO 8601 in the configured time zone, e.g. 2023-11-14T17:13:20-05:00
+   */
+  private formatDate(epochMs: number): string {
+    if (!this.dateFormat) {
+      return new Date(epochMs).toISOString().replace('.000Z', 'Z');
+    }
+
+    const parts = Object.fromEntries(
+      this.dateFormat.formatToParts(new Date(epochMs)).map(part => [part.type, part.value])
+    );
+    const local = `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+
+    const offsetMinutes = Math.round((Date.parse(`${local}Z`) - Math.floor(epochMs / 1000) * 1000) / 60000);
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+
+    return `${local}${sign}${hours}:${minutes}`;
+  }
+}
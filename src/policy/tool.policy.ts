@@ -0,0 +1,158 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPService } from '../api/client/tp.service.js';
+import { ToolDefinition } from '../tools/tool.registry.js';
+
+export interface ToolPolicyConfig {
+  /** Only expose tools annotated with readOnlyHint */
+  readOnly?: boolean;
+  /** When set, only these tools are exposed */
+  allowTools?: string[];
+  /** Tools that are never exposed (wins over allowTools) */
+  denyTools?: string[];
+  /** Entity types each mutating tool may touch, e.g. { "create_entity": ["Bug", "Task"] } */
+  allowedEntityTypes?: Record<string, string[]>;
+}
+
+type Args = Record<string, unknown>;
+
+interface EntityTypeTarget {
+  /** Entity types named directly in the arguments */
+  types?: (args: Args) => unknown[];
+  /** General IDs whose ResourceType must be looked up */
+  generalIds?: (args: Args) => unknown[];
+  /** A record (Relation, Assignment, ...) whose referenced entities must be looked up */
+  record?: { type: string; id: (args: Args) => unknown; references: string[] };
+}
+
+/**
+ * How to find the entity types affected by each built-in mutating tool
+ */
+const ENTITY_TYPE_TARGETS: Record<string, EntityTypeTarget> = {
+  create_entity: { types: (args) => [args.type] },
+  update_entity: { types: (args) => [args.type] },
+  transition_entity: { types: (args) => [args.type] },
+  delete_entity: { types: (args) => [args.type] },
+  create_comment: { generalIds: (args) => [args.entityId] },
+  update_comment: { record: { type: 'Comment', id: (args) => args.commentId, references: ['General'] } },
+  delete_comment: { record: { type: 'Comment', id: (args) => args.commentId, references: ['General'] } },
+  add_attachment: { generalIds: (args) => [args.entityId] },
+  create_relation: { generalIds: (args) => [args.masterId, args.slaveId] },
+  delete_relation: { record: { type: 'Relation', id: (args) => args.relationId, references: ['Master', 'Slave'] } },
+  add_assignment: { generalIds: (args) => [args.entityId] },
+  remove_assignment: { record: { type: 'Assignment', id: (args) => args.assignmentId, references: ['Assignable'] } },
+  create_role_effort: { generalIds: (args) => [args.entityId] },
+  update_role_effort: { record: { type: 'RoleEffort', id: (args) => args.roleEffortId, references: ['Assignable'] } },
+  delete_role_effort: { record: { type: 'RoleEffort', id: (args) => args.roleEffortId, references: ['Assignable'] } },
+};
+
+/**
+ * Decides which tools are exposed and whether a call may proceed.
+ * Enforced both when listing tools and at dispatch time.
+ */
+export class ToolPolicy {
+  private readonly allowTools: Set<string> | null;
+  private readonly denyTools: Set<string>;
+
+  constructor(private readonly config: ToolPolicyConfig) {
+    this.allowTools = config.allowTools?.length ? new Set(config.allowTools) : null;
+    this.denyTools = new Set(config.denyTools || []);
+  }
+
+  isToolEnabled(definition: ToolDefinition): boolean {
+    if (this.denyTools.has(definition.name)) {
+      return false;
+    }
+    if (this.allowTools && !this.allowTools.has(definition.name)) {
+      return false;
+    }
+    if (this.config.readOnly && definition.annotations?.readOnlyHint !== true) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Log policy entries that do not match any registered tool, which usually means a typo
+   */
+  warnUnknownTools(registeredNames: string[]): void {
+    const known = new Set(registeredNames);
+    const configured = [
+      ...(this.config.allowTools || []),
+      ...(this.config.denyTools || []),
+      ...Object.keys(this.config.allowedEntityTypes || {}),
+    ];
+
+    for (const name of configured) {
+      if (!known.has(name)) {
+        console.error(`Policy references unknown tool '${name}'`);
+      }
+    }
+  }
+
+  /**
+   * Throws when the call is not permitted by the policy
+   */
+  async assertCallAllowed(definition: ToolDefinition, args: unknown, service: TPService): Promise<void> {
+    if (!this.isToolEnabled(definition)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool '${definition.name}' is disabled by server policy`
+      );
+    }
+
+    const allowedTypes = this.config.allowedEntityTypes?.[definition.name];
+    if (!allowedTypes) {
+      return;
+    }
+
+    const target = ENTITY_TYPE_TARGETS[definition.name];
+    if (!target) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool '${definition.name}' has an entity type restriction, but the server cannot determine which entity it affects`
+      );
+    }
+
+    const affectedTypes = await this.resolveEntityTypes(target, (args ?? {}) as Args, service);
+    const denied = affectedTypes.filter(type => !allowedTypes.includes(type));
+
+    if (denied.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool '${definition.name}' is not allowed on ${[...new Set(denied)].join(', ')}. Allowed entity types: ${allowedTypes.join(', ')}`
+      );
+    }
+  }
+
+  private async resolveEntityTypes(target: EntityTypeTarget, args: Args, service: TPService): Promise<string[]> {
+    const types: string[] = [];
+
+    for (const type of target.types?.(args) || []) {
+      types.push(String(type));
+    }
+
+    for (const id of target.generalIds?.(args) || []) {
+      if (typeof id !== 'number') {
+        continue;
+      }
+      const general = await service.getEntity<{ ResourceType?: string }>('General', id);
+      types.push(general.ResourceType || 'Unknown');
+    }
+
+    if (target.record) {
+      const id = target.record.id(args);
+      if (typeof id === 'number') {
+        const record = await service.getEntity<Record<string, { ResourceType?: string } | undefined>>(
+          target.record.type,
+          id,
+          target.record.references
+        );
+        for (const reference of target.record.references) {
+          types.push(record[reference]?.ResourceType || 'Unknown');
+        }
+      }
+    }
+
+    return types;
+  }
+}
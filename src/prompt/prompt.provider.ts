@@ -0,0 +1,310 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../api/client/tp.service.js';
+import { TPInstanceManager } from '../api/client/tp.instances.js';
+
+const idArgument = z.coerce.number().int().positive();
+
+export const dailyStandupSchema = z.object({
+  teamId: idArgument,
+  instance: z.string().optional(),
+});
+
+export const sprintReviewSchema = z.object({
+  teamIterationId: idArgument,
+  instance: z.string().optional(),
+});
+
+export const bugTriageSchema = z.object({
+  projectId: idArgument,
+  instance: z.string().optional(),
+});
+
+export const releaseNotesSchema = z.object({
+  releaseId: idArgument,
+  audience: z.string().optional(),
+  instance: z.string().optional(),
+});
+
+const INSTANCE_ARGUMENT = {
+  name: 'instance',
+  description: 'Target Process instance to use (default instance when omitted)',
+  required: false,
+};
+
+// A v1 include limits the response to the listed fields, so every summarized field is named
+const WORK_ITEM_INCLUDE = ['Id', 'Name', 'EntityState', 'AssignedUser', 'Priority', 'Project', 'Effort', 'ModifyDate'];
+
+interface WorkItemSearch {
+  /** Only items in a final (true) or non-final (false) state; also reported as `final` */
+  final?: boolean;
+  include?: string[];
+}
+
+interface PromptEntity {
+  Id: number;
+  Name?: string;
+  StartDate?: string;
+  EndDate?: string;
+}
+
+interface PromptUser {
+  FirstName?: string;
+  LastName?: string;
+  Login?: string;
+}
+
+interface WorkItemData {
+  Id: number;
+  Name?: string;
+  EntityState?: { Name?: string };
+  Priority?: { Name?: string };
+  Severity?: { Name?: string };
+  /** A single user, or a collection when the API returns several */
+  AssignedUser?: PromptUser & { Items?: PromptUser[] };
+  Effort?: number;
+  ModifyDate?: string;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required: boolean }[];
+}
+
+/**
+ * Parameterised prompts that pre-fetch Target Process data
+ * so every teammate runs the same workflow
+ */
+export class PromptProvider {
+  constructor(private instances: TPInstanceManager) {}
+
+  static getDefinitions(): PromptDefinition[] {
+    return [
+      {
+        name: 'daily_standup',
+        description: 'Daily standup summary for a team: open work, what moved since yesterday, blockers',
+        arguments: [
+          { name: 'teamId', description: 'ID of the Team', required: true },
+          INSTANCE_ARGUMENT,
+        ],
+      },
+      {
+        name: 'sprint_review',
+        description: 'Sprint review for a TeamIteration: delivered vs. carried over work and effort',
+        arguments: [
+          { name: 'teamIterationId', description: 'ID of the TeamIteration', required: true },
+          INSTANCE_ARGUMENT,
+        ],
+      },
+      {
+        name: 'bug_triage',
+        description: 'Triage open bugs of a project: suggest priority, owner and duplicates',
+        arguments: [
+          { name: 'projectId', description: 'ID of the Project', required: true },
+          INSTANCE_ARGUMENT,
+        ],
+      },
+      {
+        name: 'release_notes',
+        description: 'Draft release notes from the completed features, stories and bugs of a Release',
+        arguments: [
+          { name: 'releaseId', description: 'ID of the Release', required: true },
+          { name: 'audience', description: 'Target audience, e.g. "customers" or "internal" (default: customers)', required: false },
+          INSTANCE_ARGUMENT,
+        ],
+      },
+    ];
+  }
+
+  listPrompts() {
+    return { prompts: PromptProvider.getDefinitions() };
+  }
+
+  async getPrompt(name: string, args: Record<string, string> | undefined) {
+    try {
+      switch (name) {
+        case 'daily_standup':
+          return await this.dailyStandup(dailyStandupSchema.parse(args ?? {}));
+        case 'sprint_review':
+          return await this.sprintReview(sprintReviewSchema.parse(args ?? {}));
+        case 'bug_triage':
+          return await this.bugTriage(bugTriageSchema.parse(args ?? {}));
+        case 'release_notes':
+          return await this.releaseNotes(releaseNotesSchema.parse(args ?? {}));
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for prompt ${name}: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to build prompt ${name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async dailyStandup({ teamId, instance }: z.infer<typeof dailyStandupSchema>) {
+    const service = this.instances.get(instance);
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const [team, openItems, recentlyChanged] = await Promise.all([
+      service.getEntity<PromptEntity>('Team', teamId),
+      this.searchWorkItems(service, ['UserStory', 'Bug', 'Task'], `Team.Id eq ${teamId}`, { final: false }),
+      this.searchWorkItems(service, ['UserStory', 'Bug', 'Task'], `Team.Id eq ${teamId} and ModifyDate gte '${yesterday}'`),
+    ]);
+
+    return this.render(
+      `Daily standup for team "${team.Name}"`,
+      `You are facilitating the daily standup for team "${team.Name}" (Team #${teamId}).
+Using the data below:
+1. For each person, summarise what they moved since yesterday and what they are working on now.
+2. List items that look stuck (open for a long time, no recent changes, or blocked).
+3. Call out unassigned open items.
+Keep it short and scannable; reference items as #Id.`,
+      {
+        changedSince: yesterday,
+        recentlyChanged,
+        openItems,
+      }
+    );
+  }
+
+  private async sprintReview({ teamIterationId, instance }: z.infer<typeof sprintReviewSchema>) {
+    const service = this.instances.get(instance);
+    const [iteration, delivered, carriedOver] = await Promise.all([
+      service.getEntity<PromptEntity>('TeamIteration', teamIterationId),
+      this.searchWorkItems(service, ['UserStory', 'Bug'], `TeamIteration.Id eq ${teamIterationId}`, { final: true }),
+      this.searchWorkItems(service, ['UserStory', 'Bug'], `TeamIteration.Id eq ${teamIterationId}`, { final: false }),
+    ]);
+    const items = [...delivered, ...carriedOver];
+
+    return this.render(
+      `Sprint review for "${iteration.Name}"`,
+      `You are preparing the sprint review for "${iteration.Name}" (TeamIteration #${teamIterationId}, ${iteration.StartDate ?? '?'} – ${iteration.EndDate ?? '?'}).
+Using the data below:
+1. Summarise what was delivered, grouped by theme.
+2. List what is carried over and why it might have slipped.
+3. Compare delivered vs. planned effort and comment on the team's predictability.
+4. Suggest up to three discussion points for the retrospective.`,
+      {
+        totals: {
+          items: items.length,
+          delivered: delivered.length,
+          carriedOver: carriedOver.length,
+          plannedEffort: this.sumEffort(items),
+          deliveredEffort: this.sumEffort(delivered),
+        },
+        delivered,
+        carriedOver,
+      }
+    );
+  }
+
+  private async bugTriage({ projectId, instance }: z.infer<typeof bugTriageSchema>) {
+    const service = this.instances.get(instance);
+    const [project, bugs] = await Promise.all([
+      service.getEntity<PromptEntity>('Project', projectId),
+      this.searchWorkItems(service, ['Bug'], `Project.Id eq ${projectId}`, { final: false, include: ['Severity'] }),
+    ]);
+
+    return this.render(
+      `Bug triage for "${project.Name}"`,
+      `You are triaging the open bugs of project "${project.Name}" (Project #${projectId}).
+For each bug below:
+1. Propose a priority and severity, with a one-line justification.
+2. Suggest an owner when the bug is unassigned, based on who works on similar bugs.
+3. Flag likely duplicates (reference both #Ids).
+Finish with the top five bugs the team should fix first.
+Do not change anything in Target Process until the user confirms.`,
+      { openBugs: bugs }
+    );
+  }
+
+  private async releaseNotes({ releaseId, audience, instance }: z.infer<typeof releaseNotesSchema>) {
+    const service = this.instances.get(instance);
+    const [release, items] = await Promise.all([
+      service.getEntity<PromptEntity>('Release', releaseId),
+      this.searchWorkItems(service, ['Feature', 'UserStory', 'Bug'], `Release.Id eq ${releaseId}`, { final: true }),
+    ]);
+
+    return this.render(
+      `Release notes for "${release.Name}"`,
+      `Write release notes for "${release.Name}" (Release #${releaseId}) aimed at ${audience || 'customers'}.
+Group the completed items below into "New features", "Improvements" and "Bug fixes".
+Describe user-visible changes in plain language, skip purely internal work, and keep #Id references in parentheses.`,
+      { completedItems: items }
+    );
+  }
+
+  /**
+   * Search several work item types with the same filter and flatten them into compact summaries.
+   * The included EntityState only carries its name, so whether an item is final comes from the filter.
+   */
+  private async searchWorkItems(
+    service: TPService,
+    types: string[],
+    where: string,
+    { final, include = [] }: WorkItemSearch = {}
+  ): Promise<Record<string, unknown>[]> {
+    const filter = final === undefined ? where : `(${where}) and (EntityState.IsFinal eq '${final}')`;
+    const results = await Promise.all(types.map(type =>
+      service.searchEntities<WorkItemData>(
+        type,
+        filter,
+        [...WORK_ITEM_INCLUDE, ...include],
+        200,
+        [{ field: 'ModifyDate', direction: 'desc' }]
+      ).then(items => items.map(item => this.summarize(type, item, final)))
+    ));
+
+    return results.flat();
+  }
+
+  private summarize(type: string, item: WorkItemData, final?: boolean): Record<string, unknown> {
+    const assigned = item.AssignedUser?.Items ?? (item.AssignedUser ? [item.AssignedUser] : []);
+
+    return {
+      id: item.Id,
+      type,
+      name: item.Name,
+      state: item.EntityState?.Name,
+      final,
+      priority: item.Priority?.Name,
+      severity: item.Severity?.Name,
+      assigned: assigned.map(user =>
+        [user.FirstName, user.LastName].filter(Boolean).join(' ') || user.Login
+      ),
+      effort: item.Effort,
+      modified: item.ModifyDate,
+    };
+  }
+
+  private sumEffort(items: Record<string, unknown>[]): number {
+    return items.reduce((sum, item) => sum + (typeof item.effort === 'number' ? item.effort : 0), 0);
+  }
+
+  private render(description: string, instructions: string, data: unknown) {
+    return {
+      description,
+      messages: [
+        {
+          role: 'user' as const,
+          content: {
+            type: 'text' as const,
+            text: `${instructions}\n\nData:\n${JSON.stringify(data, null, 2)}`,
+          },
+        },
+      ],
+    };
+  }
+}
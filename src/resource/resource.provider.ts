@@ -0,0 +1,194 @@
+import { URLSearchParams } from 'node:url';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPService } from '../api/client/tp.service.js';
+import { TPInstanceManager } from '../api/client/tp.instances.js';
+
+const URI_SCHEME = 'tp://';
+
+/**
+ * Entity types whose metadata is advertised in resources/list
+ */
+const LISTED_META_TYPES = [
+  'UserStory', 'Bug', 'Task', 'Feature', 'Epic',
+  'Project', 'Team', 'Release', 'Iteration', 'TeamIteration'
+];
+
+/**
+ * Planning containers every assignable item can be filtered by
+ */
+const PLANNING_CONTAINERS: Record<string, string> = {
+  Project: 'Project.Id',
+  Team: 'Team.Id',
+  Release: 'Release.Id',
+  Iteration: 'Iteration.Id',
+  TeamIteration: 'TeamIteration.Id',
+};
+
+/**
+ * Collection views available under a container entity, e.g. tp://Project/55/open-bugs.
+ * `containers` maps each supported container type to the field that links an item to it.
+ */
+const COLLECTION_VIEWS: Record<string, { type: string; where: string; description: string; containers: Record<string, string> }> = {
+  'open-bugs': {
+    type: 'Bug',
+    where: "EntityState.IsFinal eq 'false'",
+    description: 'Bugs that are not in a final state',
+    containers: { ...PLANNING_CONTAINERS, Feature: 'Feature.Id' },
+  },
+  'open-user-stories': {
+    type: 'UserStory',
+    where: "EntityState.IsFinal eq 'false'",
+    description: 'User stories that are not in a final state',
+    containers: { ...PLANNING_CONTAINERS, Feature: 'Feature.Id', Epic: 'Feature.Epic.Id' },
+  },
+  'open-tasks': {
+    type: 'Task',
+    where: "EntityState.IsFinal eq 'false'",
+    description: 'Tasks that are not in a final state',
+    containers: PLANNING_CONTAINERS,
+  },
+};
+
+/**
+ * Fields of the items a collection view lists
+ */
+const VIEW_INCLUDE = ['Id', 'Name', 'EntityState', 'AssignedUser', 'Priority', 'CreateDate', 'ModifyDate'];
+
+/**
+ * Entity type entry of the Index/meta response
+ */
+interface EntityTypeMetadata {
+  Name: string;
+  [property: string]: unknown;
+}
+
+/**
+ * Exposes Target Process entities as MCP resources
+ *
+ * Supported URIs:
+ * - tp://{type}/{id}            a single entity (e.g. tp://UserStory/1234)
+ * - tp://{type}/{id}/{view}     a collection under a container (e.g. tp://Project/55/open-bugs)
+ * - tp://meta/{type}            metadata for an entity type (e.g. tp://meta/UserStory)
+ *
+ * Append ?instance=<name> to read from a non-default Target Process instance.
+ */
+export class ResourceProvider {
+  constructor(private instances: TPInstanceManager) {}
+
+  listResources() {
+    return {
+      resources: LISTED_META_TYPES.map(type => ({
+        uri: `${URI_SCHEME}meta/${type}`,
+        name: `${type} metadata`,
+        description: `Fields and relations of the ${type} entity type`,
+        mimeType: 'application/json',
+      })),
+    };
+  }
+
+  listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${URI_SCHEME}{type}/{id}`,
+          name: 'Target Process entity',
+          description: 'A single entity by type and ID, e.g. tp://UserStory/1234',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${URI_SCHEME}{type}/{id}/{view}`,
+          name: 'Target Process collection',
+          description: `Items under a container. Views: ${Object.entries(COLLECTION_VIEWS).map(([name, view]) => `${name} (under ${Object.keys(view.containers).join(', ')})`).join('; ')}. Example: tp://Project/55/open-bugs`,
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${URI_SCHEME}meta/{type}`,
+          name: 'Entity type metadata',
+          description: 'Metadata for an entity type, e.g. tp://meta/UserStory',
+          mimeType: 'application/json',
+        },
+      ],
+    };
+  }
+
+  async readResource(uri: string) {
+    const { segments, instance } = this.parseUri(uri);
+    const data = await this.resolve(uri, segments, this.instances.get(instance));
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  private parseUri(uri: string): { segments: string[]; instance?: string } {
+    if (!uri.startsWith(URI_SCHEME)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unsupported resource URI: ${uri}. Expected ${URI_SCHEME}{type}/{id}, ${URI_SCHEME}{type}/{id}/{view} or ${URI_SCHEME}meta/{type}`
+      );
+    }
+
+    const [path, query] = uri.substring(URI_SCHEME.length).split('?');
+    return {
+      segments: path.split('/').filter(Boolean).map(decodeURIComponent),
+      instance: new URLSearchParams(query || '').get('instance') || undefined,
+    };
+  }
+
+  private async resolve(uri: string, segments: string[], service: TPService): Promise<unknown> {
+    const [first, second, third] = segments;
+
+    if (first === 'meta' && segments.length === 2) {
+      return this.readMetadata(service, second);
+    }
+
+    const id = Number(second);
+    if (!first || !Number.isInteger(id) || id <= 0 || segments.length > 3) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+
+    if (segments.length === 2) {
+      return service.getEntity(first, id);
+    }
+
+    const view = COLLECTION_VIEWS[third];
+    if (!view) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown view '${third}'. Available views: ${Object.keys(COLLECTION_VIEWS).join(', ')}`
+      );
+    }
+    const containerField = view.containers[first];
+    if (!containerField) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `View '${third}' is only available under: ${Object.keys(view.containers).join(', ')}`
+      );
+    }
+
+    return service.searchEntities(
+      view.type,
+      `(${containerField} eq ${id}) and (${view.where})`,
+      VIEW_INCLUDE,
+      100,
+      [{ field: 'CreateDate', direction: 'desc' }]
+    );
+  }
+
+  private async readMetadata(service: TPService, type: string): Promise<unknown> {
+    const metadata: { Items?: EntityTypeMetadata[] } | undefined = await service.fetchMetadata();
+    const entityMeta = metadata?.Items?.find(item => item.Name === type);
+
+    if (!entityMeta) {
+      throw new McpError(ErrorCode.InvalidParams, `No metadata found for entity type '${type}'`);
+    }
+
+    return entityMeta;
+  }
+}
@@ -3,35 +3,235 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import fs from 'fs';
 import path from 'path';
 
-import { TPService, TPServiceConfig } from './api/client/tp.service.js';
+import { TPServiceConfig } from './api/client/tp.service.js';
+import { TPAuthConfig } from './api/client/tp.auth.js';
+import { RateLimitConfig } from './api/client/tp.limiter.js';
+import { ResponseCacheConfig } from './api/client/tp.cache.js';
+import { AttachmentConfig } from './api/client/tp.attachments.js';
+import { DeletionConfig } from './api/client/tp.deletion.js';
+import { NormalizerConfig } from './output/response.normalizer.js';
+import { ResponseBudgetConfig, continuationOwner } from './output/response.budget.js';
+import { DEFAULT_INSTANCE, TPInstanceManager, TPInstancesConfig } from './api/client/tp.instances.js';
 import { SearchTool } from './tools/search/search.tool.js';
+import { ApiV2QueryTool } from './tools/query/query.tool.js';
+import { AggregateTool } from './tools/aggregate/aggregate.tool.js';
 import { GetEntityTool } from './tools/entity/get.tool.js';
 import { CreateEntityTool } from './tools/entity/create.tool.js';
 import { UpdateEntityTool } from './tools/update/update.tool.js';
+import { TransitionEntityTool } from './tools/entity/transition.tool.js';
+import { DeleteEntityTool } from './tools/entity/delete.tool.js';
 import { InspectObjectTool } from './tools/inspect/inspect.tool.js';
 import { CommentTool } from './tools/comment/comment.tool.js';
 import { RelationTool } from './tools/relation/relation.tool.js';
 import { AssignmentTool } from './tools/assignment/assignment.tool.js';
 import { RoleEffortTool } from './tools/role-effort/role-effort.tool.js';
+import { CacheControlTool } from './tools/cache/cache.tool.js';
+import { AttachmentTool } from './tools/attachment/attachment.tool.js';
+import { FetchMoreTool } from './tools/fetch-more/fetch-more.tool.js';
+import { InstanceTool } from './tools/instance/instance.tool.js';
+import { ToolDefinition, ToolModule, ToolRegistry } from './tools/tool.registry.js';
+import { ToolPolicy, ToolPolicyConfig } from './policy/tool.policy.js';
+import { ResourceProvider } from './resource/resource.provider.js';
+import { PromptProvider } from './prompt/prompt.provider.js';
+import { HttpTransportServer, TransportConfig } from './transport/http.transport.js';
+
+const CONFIG_PATH = path.join(process.cwd(), 'config', 'targetprocess.json');
+
+/**
+ * Sections of config/targetprocess.json; the service fields at the top level
+ * form the single-instance service config
+ */
+interface ConfigFile extends Partial<TPServiceConfig> {
+  instances?: Record<string, TPServiceConfig>;
+  defaultInstance?: string;
+  transport?: Partial<TransportConfig>;
+  toolModulesDir?: string;
+  policy?: ToolPolicyConfig;
+}
+
+/**
+ * Read config/targetprocess.json, returning an empty config when the file does not exist
+ */
+function readConfigFile(): ConfigFile {
+  if (!fs.existsSync(CONFIG_PATH)) {
+    return {};
+  }
+
+  try {
+    const config: unknown = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'));
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw new Error('expected a JSON object');
+    }
+    return config as ConfigFile;
+  } catch (error) {
+    console.error(`Error parsing config file: ${error instanceof Error ? error.message : String(error)}`);
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error parsing config file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Auth mode from environment variables: TP_LOGIN/TP_PASSWORD for basic auth,
+ * TP_SERVICE_TOKEN_FILE for a service account token, TP_AUTH_TYPE=query for the
+ * legacy access_token query parameter. Returns undefined for the default header token auth.
+ */
+function loadEnvAuth(): TPAuthConfig | undefined {
+  if (process.env.TP_LOGIN && process.env.TP_PASSWORD) {
+    return { type: 'basic', login: process.env.TP_LOGIN, password: process.env.TP_PASSWORD };
+  }
+  if (process.env.TP_SERVICE_TOKEN_FILE) {
+    return { type: 'serviceAccount', tokenFile: process.env.TP_SERVICE_TOKEN_FILE };
+  }
+  if (process.env.TP_AUTH_TYPE === 'query') {
+    return { type: 'query' };
+  }
+  return undefined;
+}
+
+function parseNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new McpError(ErrorCode.InternalError, `Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Rate limit overrides from TP_RATE_LIMIT_RPS, TP_RATE_LIMIT_BURST and
+ * TP_MAX_CONCURRENT_REQUESTS, applied to every instance
+ */
+function loadEnvRateLimit(): RateLimitConfig {
+  const config: RateLimitConfig = {
+    requestsPerSecond: parseNumber('TP_RATE_LIMIT_RPS'),
+    burst: parseNumber('TP_RATE_LIMIT_BURST'),
+    maxConcurrent: parseNumber('TP_MAX_CONCURRENT_REQUESTS'),
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Response cache overrides from TP_CACHE_ENABLED and TP_CACHE_TTL_SECONDS, applied to
+ * every instance. TP_CACHE_DIR persists each instance's cache to <dir>/<instance>.json.
+ */
+function loadEnvCache(instance: string): ResponseCacheConfig {
+  const config: ResponseCacheConfig = {
+    enabled: process.env.TP_CACHE_ENABLED !== undefined
+      ? ['true', '1', 'yes'].includes(process.env.TP_CACHE_ENABLED.toLowerCase())
+      : undefined,
+    defaultTtlSeconds: parseNumber('TP_CACHE_TTL_SECONDS'),
+    persistPath: process.env.TP_CACHE_DIR ? path.join(process.env.TP_CACHE_DIR, `${instance}.json`) : undefined,
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Tool output overrides: TP_TIME_ZONE (IANA name), TP_HTML_TO_MARKDOWN=false and
+ * TP_MAX_RESPONSE_CHARS
+ */
+function loadEnvOutput(): NormalizerConfig & ResponseBudgetConfig {
+  const config: NormalizerConfig & ResponseBudgetConfig = {
+    timeZone: process.env.TP_TIME_ZONE || undefined,
+    htmlToMarkdown: process.env.TP_HTML_TO_MARKDOWN !== undefined
+      ? ['true', '1', 'yes'].includes(process.env.TP_HTML_TO_MARKDOWN.toLowerCase())
+      : undefined,
+    maxResponseChars: parseNumber('TP_MAX_RESPONSE_CHARS'),
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Attachment overrides: TP_ATTACHMENTS_DIR, TP_ATTACHMENT_MAX_UPLOAD_BYTES and
+ * TP_ATTACHMENT_MAX_DOWNLOAD_BYTES
+ */
+function loadEnvAttachments(): AttachmentConfig {
+  const config: AttachmentConfig = {
+    directory: process.env.TP_ATTACHMENTS_DIR || undefined,
+    maxUploadBytes: parseNumber('TP_ATTACHMENT_MAX_UPLOAD_BYTES'),
+    maxDownloadBytes: parseNumber('TP_ATTACHMENT_MAX_DOWNLOAD_BYTES'),
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Deletion overrides: TP_DELETE_MODE (delete or archive) and TP_ARCHIVE_STATE
+ */
+function loadEnvDeletion(): DeletionConfig {
+  const mode = process.env.TP_DELETE_MODE?.toLowerCase();
+  if (mode !== undefined && mode !== 'delete' && mode !== 'archive') {
+    throw new McpError(ErrorCode.InternalError, `Invalid TP_DELETE_MODE: ${process.env.TP_DELETE_MODE} (expected delete or archive)`);
+  }
+
+  const config: DeletionConfig = {
+    mode,
+    archiveState: process.env.TP_ARCHIVE_STATE || undefined,
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Service config of the single-instance config file format, without the other sections
+ */
+function singleInstanceConfig(
+  domain: string,
+  { accessToken, auth, retry, rateLimit, cache, output, attachments, deletion }: ConfigFile
+): TPServiceConfig {
+  return { domain, accessToken, auth, retry, rateLimit, cache, output, attachments, deletion };
+}
+
+/**
+ * Instance configuration. TP_DOMAIN/TP_ACCESS_TOKEN (or top-level domain/accessToken
+ * in the config file) define the "default" instance; TP_INSTANCES (JSON) or the
+ * "instances" section of the config file define named instances.
+ */
+function loadConfig(fileConfig: ConfigFile): TPInstancesConfig {
+  const instances: Record<string, TPServiceConfig> = {};
+
+  if (process.env.TP_INSTANCES) {
+    try {
+      Object.assign(instances, JSON.parse(process.env.TP_INSTANCES));
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Invalid TP_INSTANCES: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  } else if (fileConfig.instances) {
+    Object.assign(instances, fileConfig.instances);
+  }
 
-function loadConfig(): TPServiceConfig {
   // Try environment variables first
-  if (process.env.TP_DOMAIN && process.env.TP_ACCESS_TOKEN) {
-    return {
+  const envAuth = loadEnvAuth();
+  if (process.env.TP_DOMAIN && (process.env.TP_ACCESS_TOKEN || envAuth)) {
+    instances[DEFAULT_INSTANCE] = {
+      ...fileConfig.instances?.[DEFAULT_INSTANCE],
       domain: process.env.TP_DOMAIN,
-      accessToken: process.env.TP_ACCESS_TOKEN
+      accessToken: process.env.TP_ACCESS_TOKEN,
+      auth: envAuth
     };
+  } else if (fileConfig.domain && !instances[DEFAULT_INSTANCE]) {
+    // Fall back to the single-instance config file format
+    instances[DEFAULT_INSTANCE] = singleInstanceConfig(fileConfig.domain, fileConfig);
   }
 
-  // Fall back to config file
-  const configPath = path.join(process.cwd(), 'config', 'targetprocess.json');
-  if (!fs.existsSync(configPath)) {
+  const names = Object.keys(instances);
+  if (names.length === 0) {
     console.error('No configuration found. Please set environment variables (TP_DOMAIN, TP_ACCESS_TOKEN) or create config/targetprocess.json');
     throw new McpError(
       ErrorCode.InternalError,
@@ -39,169 +239,282 @@ function loadConfig(): TPServiceConfig {
     );
   }
 
-  try {
-    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
-  } catch (error) {
-    console.error(`Error parsing config file: ${error instanceof Error ? error.message : String(error)}`);
+  const envRateLimit = loadEnvRateLimit();
+  for (const name of names) {
+    instances[name] = {
+      ...instances[name],
+      rateLimit: { ...instances[name].rateLimit, ...envRateLimit },
+      cache: { ...instances[name].cache, ...loadEnvCache(name) },
+      output: { ...instances[name].output, ...loadEnvOutput() },
+      attachments: { ...instances[name].attachments, ...loadEnvAttachments() },
+      deletion: { ...instances[name].deletion, ...loadEnvDeletion() },
+    };
+  }
+
+  const defaultInstance = process.env.TP_DEFAULT_INSTANCE
+    || fileConfig.defaultInstance
+    || (instances[DEFAULT_INSTANCE] ? DEFAULT_INSTANCE : names[0]);
+
+  return { instances, defaultInstance };
+}
+
+/**
+ * Transport selection: environment variables (TP_TRANSPORT, TP_HTTP_HOST,
+ * TP_HTTP_PORT, TP_HTTP_PATH, TP_HTTP_AUTH_TOKEN, TP_HTTP_SESSION_IDLE_SECONDS)
+ * override the "transport" section of the config file
+ */
+function loadTransportConfig(fileConfig: Partial<TransportConfig> = {}): TransportConfig {
+  const type = process.env.TP_TRANSPORT || fileConfig.type || 'stdio';
+
+  if (type !== 'stdio' && type !== 'http') {
     throw new McpError(
       ErrorCode.InternalError,
-      `Error parsing config file: ${error instanceof Error ? error.message : String(error)}`
+      `Unknown transport: '${type}'. Supported transports are: stdio, http`
     );
   }
+
+  const port = process.env.TP_HTTP_PORT ? Number(process.env.TP_HTTP_PORT) : fileConfig.port;
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new McpError(ErrorCode.InternalError, `Invalid HTTP port: ${port}`);
+  }
+
+  return {
+    ...fileConfig,
+    type,
+    host: process.env.TP_HTTP_HOST || fileConfig.host,
+    port,
+    path: process.env.TP_HTTP_PATH || fileConfig.path,
+    authToken: process.env.TP_HTTP_AUTH_TOKEN || fileConfig.authToken,
+    sessionIdleSeconds: parseNumber('TP_HTTP_SESSION_IDLE_SECONDS') ?? fileConfig.sessionIdleSeconds,
+  };
 }
 
-export class TargetProcessServer {
-  private server: Server;
-  private service: TPService;
-  private tools: {
-    search: SearchTool;
-    get: GetEntityTool;
-    create: CreateEntityTool;
-    update: UpdateEntityTool;
-    inspect: InspectObjectTool;
-    comment: CommentTool;
-    relation: RelationTool;
-    assignment: AssignmentTool;
-    roleEffort: RoleEffortTool;
+/**
+ * Directory with extension tool modules: TP_TOOL_MODULES_DIR or "toolModulesDir" in the config file
+ */
+function loadToolModulesDir(fileDirectory?: string): string | undefined {
+  return process.env.TP_TOOL_MODULES_DIR || fileDirectory;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Tool policy: environment variables (TP_READ_ONLY, TP_ALLOW_TOOLS, TP_DENY_TOOLS,
+ * TP_ALLOWED_ENTITY_TYPES as JSON) override the "policy" section of the config file
+ */
+function loadPolicyConfig(fileConfig: ToolPolicyConfig = {}): ToolPolicyConfig {
+
+  let allowedEntityTypes = fileConfig.allowedEntityTypes;
+  if (process.env.TP_ALLOWED_ENTITY_TYPES) {
+    try {
+      allowedEntityTypes = JSON.parse(process.env.TP_ALLOWED_ENTITY_TYPES);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Invalid TP_ALLOWED_ENTITY_TYPES: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return {
+    readOnly: process.env.TP_READ_ONLY !== undefined
+      ? ['true', '1', 'yes'].includes(process.env.TP_READ_ONLY.toLowerCase())
+      : fileConfig.readOnly,
+    allowTools: parseList(process.env.TP_ALLOW_TOOLS) || fileConfig.allowTools,
+    denyTools: parseList(process.env.TP_DENY_TOOLS) || fileConfig.denyTools,
+    allowedEntityTypes,
   };
+}
+
+/**
+ * Built-in tool modules, in the order their tools are listed
+ */
+const BUILTIN_TOOL_MODULES: ToolModule[] = [
+  SearchTool,
+  ApiV2QueryTool,
+  AggregateTool,
+  GetEntityTool,
+  CreateEntityTool,
+  UpdateEntityTool,
+  TransitionEntityTool,
+  DeleteEntityTool,
+  InspectObjectTool,
+  CommentTool,
+  AttachmentTool,
+  RelationTool,
+  AssignmentTool,
+  RoleEffortTool,
+  CacheControlTool,
+  FetchMoreTool,
+];
+
+export class TargetProcessServer {
+  private fileConfig: ConfigFile;
+  private instances: TPInstanceManager;
+  private registries = new Map<string, ToolRegistry>();
+  private policy: ToolPolicy;
+  private resources: ResourceProvider;
+  private prompts: PromptProvider;
 
   constructor() {
-    // Initialize service
-    const config = loadConfig();
-    this.service = new TPService(config);
-
-    // Initialize tools
-    this.tools = {
-      search: new SearchTool(this.service),
-      get: new GetEntityTool(this.service),
-      create: new CreateEntityTool(this.service),
-      update: new UpdateEntityTool(this.service),
-      inspect: new InspectObjectTool(this.service),
-      comment: new CommentTool(this.service),
-      relation: new RelationTool(this.service),
-      assignment: new AssignmentTool(this.service),
-      roleEffort: new RoleEffortTool(this.service)
+    // Parse the config file once; every loader picks its own section
+    this.fileConfig = readConfigFile();
+
+    // Initialize one service per configured instance
+    this.instances = new TPInstanceManager(loadConfig(this.fileConfig));
+
+    // Initialize tools, bound to each instance's service
+    for (const [name, service] of this.instances.entries()) {
+      const registry = new ToolRegistry();
+      for (const module of BUILTIN_TOOL_MODULES) {
+        module.register(registry, service);
+      }
+      InstanceTool.register(registry, this.instances);
+      this.registries.set(name, registry);
+    }
+
+    this.policy = new ToolPolicy(loadPolicyConfig(this.fileConfig.policy));
+
+    // Initialize resources
+    this.resources = new ResourceProvider(this.instances);
+
+    // Initialize prompts
+    this.prompts = new PromptProvider(this.instances);
+
+    // Initialize entity type caches in the background
+    this.initializeCache();
+  }
+
+  /**
+   * Get the tool registry of an instance (the default instance when not specified)
+   */
+  private registryFor(instance?: string): ToolRegistry {
+    this.instances.get(instance);
+    return this.registries.get(instance || this.instances.defaultInstance)!;
+  }
+
+  /**
+   * Instance a fetch_more continuation belongs to: the rest of a truncated
+   * response is only held by the instance that produced it
+   */
+  private continuedInstance(toolName: string, args: Record<string, unknown>): string | undefined {
+    const owner = toolName === 'fetch_more' ? continuationOwner(args.continuation) : undefined;
+    return owner && this.instances.names().includes(owner) ? owner : undefined;
+  }
+
+  /**
+   * Add the optional "instance" argument to a tool definition when several instances are configured
+   */
+  private withInstanceArgument(definition: ToolDefinition): ToolDefinition {
+    if (this.instances.size < 2) {
+      return definition;
+    }
+
+    return {
+      ...definition,
+      inputSchema: {
+        ...definition.inputSchema,
+        properties: {
+          ...definition.inputSchema.properties,
+          instance: {
+            type: 'string',
+            enum: this.instances.names(),
+            description: `Target Process instance to use (default: ${this.instances.defaultInstance})`,
+          },
+        },
+      },
     };
+  }
 
-    // Initialize server
-    this.server = new Server(
+  /**
+   * Create an MCP server wired to the shared service and tools.
+   * stdio uses a single server; the HTTP transport creates one per session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'target-process-server',
         version: '0.1.0',
       },
       {
         capabilities: {
-          tools: {
-            search_entities: true,
-            get_entity: true,
-            create_entity: true,
-            update_entity: true,
-            inspect_object: true,
-            create_comment: true,
-            create_relation: true,
-            delete_relation: true,
-            search_relations: true,
-            add_assignment: true,
-            remove_assignment: true,
-            get_assignments: true,
-            create_role_effort: true,
-            update_role_effort: true,
-            delete_role_effort: true,
-            get_role_efforts: true
-          },
+          ...(this.registryFor().size > 0 ? { tools: {} } : {}),
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.setupHandlers();
-    
-    // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-    
-    // Initialize entity type cache in the background
-    this.initializeCache();
+    this.setupHandlers(server);
+    server.onerror = (error) => console.error('[MCP Error]', error);
+
+    return server;
   }
-  
+
+  /**
+   * Load extension tool modules from the configured directory
+   */
+  private async loadExtensionTools(): Promise<void> {
+    const directory = loadToolModulesDir(this.fileConfig.toolModulesDir);
+    if (!directory) {
+      return;
+    }
+
+    try {
+      for (const [name, service] of this.instances.entries()) {
+        const loaded = await this.registries.get(name)!.loadFromDirectory(directory, service);
+        console.error(`Loaded ${loaded.length} extension tool(s) from ${directory} for instance '${name}': ${loaded.join(', ')}`);
+      }
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load tool modules: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Initialize caches in the background to improve first-request performance
    */
   private async initializeCache(): Promise<void> {
     try {
-      // Initialize entity type cache
-      await this.service.initializeEntityTypeCache();
+      // Initialize entity type cache of every instance
+      await Promise.all(
+        this.instances.entries().map(([, service]) => service.initializeEntityTypeCache())
+      );
     } catch (error) {
       console.error('Cache initialization error:', error);
       // Non-fatal error, server can still function
     }
   }
 
-  private setupHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        SearchTool.getDefinition(),
-        GetEntityTool.getDefinition(),
-        CreateEntityTool.getDefinition(),
-        UpdateEntityTool.getDefinition(),
-        InspectObjectTool.getDefinition(),
-        CommentTool.getDefinition(),
-        RelationTool.getCreateDefinition(),
-        RelationTool.getDeleteDefinition(),
-        RelationTool.getSearchDefinition(),
-        AssignmentTool.getCreateDefinition(),
-        AssignmentTool.getDeleteDefinition(),
-        AssignmentTool.getSearchDefinition(),
-        RoleEffortTool.getCreateDefinition(),
-        RoleEffortTool.getUpdateDefinition(),
-        RoleEffortTool.getDeleteDefinition(),
-        RoleEffortTool.getSearchDefinition(),
-      ],
+  private setupHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.registryFor().definitions()
+        .filter(definition => this.policy.isToolEnabled(definition))
+        .map(definition => this.withInstanceArgument(definition)),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { instance, ...args } = request.params.arguments || {};
+      const instanceName = this.continuedInstance(request.params.name, args)
+        ?? (typeof instance === 'string' ? instance : undefined);
+      const tool = this.registryFor(instanceName).get(request.params.name);
+      if (!tool) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+      }
+
       try {
-        switch (request.params.name) {
-          case 'search_entities':
-            return await this.tools.search.execute(request.params.arguments);
-          case 'get_entity':
-            return await this.tools.get.execute(request.params.arguments);
-          case 'create_entity':
-            return await this.tools.create.execute(request.params.arguments);
-          case 'update_entity':
-            return await this.tools.update.execute(request.params.arguments);
-          case 'inspect_object':
-            return await this.tools.inspect.execute(request.params.arguments);
-          case 'create_comment':
-            return await this.tools.comment.execute(request.params.arguments);
-          case 'create_relation':
-            return await this.tools.relation.executeCreate(request.params.arguments);
-          case 'delete_relation':
-            return await this.tools.relation.executeDelete(request.params.arguments);
-          case 'search_relations':
-            return await this.tools.relation.executeSearch(request.params.arguments);
-          case 'add_assignment':
-            return await this.tools.assignment.executeCreate(request.params.arguments);
-          case 'remove_assignment':
-            return await this.tools.assignment.executeDelete(request.params.arguments);
-          case 'get_assignments':
-            return await this.tools.assignment.executeSearch(request.params.arguments);
-          case 'create_role_effort':
-            return await this.tools.roleEffort.executeCreate(request.params.arguments);
-          case 'update_role_effort':
-            return await this.tools.roleEffort.executeUpdate(request.params.arguments);
-          case 'delete_role_effort':
-            return await this.tools.roleEffort.executeDelete(request.params.arguments);
-          case 'get_role_efforts':
-            return await this.tools.roleEffort.executeSearch(request.params.arguments);
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${request.params.name}`
-            );
-        }
+        const service = this.instances.get(instanceName);
+        await this.policy.assertCallAllowed(tool.definition, args, service);
+        const result = await tool.handler(args);
+        // Every tool, extensions included, stays within the response budget
+        return { ...result, content: service.fitText(result.content) };
       } catch (error) {
         if (error instanceof McpError) {
           throw error;
@@ -218,12 +531,56 @@ export class TargetProcessServer {
         };
       }
     });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () =>
+      this.resources.listResources()
+    );
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+      this.resources.listResourceTemplates()
+    );
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      this.resources.readResource(request.params.uri)
+    );
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () =>
+      this.prompts.listPrompts()
+    );
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.prompts.getPrompt(request.params.name, request.params.arguments)
+    );
   }
 
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.loadExtensionTools();
+    this.policy.warnUnknownTools(this.registryFor().names());
+
+    const transportConfig = loadTransportConfig(this.fileConfig.transport);
     const timestamp = new Date().toISOString();
+
+    if (transportConfig.type === 'http') {
+      const httpServer = new HttpTransportServer(
+        () => this.createServer(),
+        transportConfig,
+        () => this.instances.diagnostics()
+      );
+      await httpServer.start();
+      process.on('SIGINT', async () => {
+        await httpServer.close();
+        process.exit(0);
+      });
+      console.error(`Target Process MCP server running on ${httpServer.address} (started at ${timestamp})`);
+      return;
+    }
+
+    const server = this.createServer();
+    process.on('SIGINT', async () => {
+      await server.close();
+      process.exit(0);
+    });
+    await server.connect(new StdioServerTransport());
     console.error(`Target Process MCP server running on stdio (started at ${timestamp})`);
   }
 }
@@ -0,0 +1,121 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+const metricSchema = z.object({
+  op: z.enum(['count', 'sum', 'avg', 'min', 'max']),
+  field: z.string().optional().describe('Numeric field for sum/avg/min/max, e.g. Effort, TimeSpent'),
+});
+
+export const aggregateEntitiesSchema = z.object({
+  type: z.string().describe('Entity type to aggregate, e.g. Bug, UserStory'),
+  where: z.string().optional().describe('Filter expression, same syntax as search_entities'),
+  groupBy: z.array(z.string()).max(5).optional().describe('Fields to group by, e.g. ["Project.Name", "EntityState.Name"]'),
+  metrics: z.array(metricSchema).min(1).default([{ op: 'count' }]),
+  maxItems: z.number().min(1).max(10000).optional(),
+});
+
+export type AggregateEntitiesInput = z.infer<typeof aggregateEntitiesSchema>;
+
+/**
+ * Handler for the aggregate entities tool
+ */
+export class AggregateTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown) {
+    try {
+      const { type, where, groupBy, metrics, maxItems } = aggregateEntitiesSchema.parse(args);
+
+      const result = await this.service.aggregateEntities(type, { where, groupBy, metrics, maxItems });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid aggregate parameters: ${error.message}`
+        );
+      }
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Aggregate failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new AggregateTool(service);
+    registry.register(AggregateTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'aggregate_entities',
+      description: 'Count entities and sum/average numeric fields, optionally grouped, without downloading every item. Examples: open bugs per project (type=Bug, where="EntityState.IsFinal eq \'false\'", groupBy=["Project.Name"]); total effort per state in release 42 (type=UserStory, where="Release.Id eq 42", groupBy=["EntityState.Name"], metrics=[{"op":"sum","field":"Effort"}]).',
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            description: 'Entity type to aggregate, e.g. Bug, UserStory, Task, Feature',
+          },
+          where: {
+            type: 'string',
+            description: 'Filter expression, same syntax as search_entities',
+          },
+          groupBy: {
+            type: 'array',
+            items: { type: 'string' },
+            maxItems: 5,
+            description: 'Fields to group by, e.g. ["Project.Name", "EntityState.Name", "AssignedUser.Login"]. Omit for a single total.',
+          },
+          metrics: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                op: {
+                  type: 'string',
+                  enum: ['count', 'sum', 'avg', 'min', 'max'],
+                },
+                field: {
+                  type: 'string',
+                  description: 'Numeric field for sum/avg/min/max, e.g. Effort, EffortToDo, TimeSpent',
+                },
+              },
+              required: ['op'],
+            },
+            description: 'Metrics to compute per group (default: [{"op":"count"}])',
+          },
+          maxItems: {
+            type: 'number',
+            description: 'Most items to read when groups are computed locally (default and maximum: 10000)',
+            minimum: 1,
+            maximum: 10000,
+          },
+        },
+        required: ['type'],
+      },
+    } as const;
+  }
+}
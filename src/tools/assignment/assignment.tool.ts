@@ -1,11 +1,15 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+import { referenceProperty, referenceSchema } from '../reference.js';
 
 export const createAssignmentSchema = z.object({
   entityId: z.number().describe('ID of the entity (UserStory, Bug, Task, etc.) to assign user to'),
-  userId: z.number().describe('ID of the user to assign'),
-  roleId: z.number().optional().describe('ID of the role (optional)'),
+  userId: referenceSchema.describe('ID, email, login or full name of the user to assign'),
+  roleId: referenceSchema.optional().describe('ID or name of the role (optional)'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export const deleteAssignmentSchema = z.object({
@@ -14,6 +18,7 @@ export const deleteAssignmentSchema = z.object({
 
 export const searchAssignmentsSchema = z.object({
   entityId: z.number().describe('ID of the entity to find assignments for'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>;
@@ -25,7 +30,7 @@ export class AssignmentTool {
 
   async executeCreate(args: unknown) {
     try {
-      const { entityId, userId, roleId } = createAssignmentSchema.parse(args);
+      const { entityId, userId, roleId, raw } = createAssignmentSchema.parse(args);
 
       const requestData: {
         Assignable: { Id: number };
@@ -33,11 +38,11 @@ export class AssignmentTool {
         Role?: { Id: number };
       } = {
         Assignable: { Id: entityId },
-        GeneralUser: { Id: userId },
+        GeneralUser: { Id: await this.service.resolveReference('User', userId) },
       };
 
       if (roleId !== undefined) {
-        requestData.Role = { Id: roleId };
+        requestData.Role = { Id: await this.service.resolveReference('Role', roleId) };
       }
 
       const result = await this.service.createAssignment(requestData);
@@ -46,7 +51,7 @@ export class AssignmentTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -58,6 +63,10 @@ export class AssignmentTool {
         );
       }
 
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Create assignment failed: ${error instanceof Error ? error.message : String(error)}`
@@ -96,7 +105,7 @@ export class AssignmentTool {
 
   async executeSearch(args: unknown) {
     try {
-      const { entityId } = searchAssignmentsSchema.parse(args);
+      const { entityId, raw } = searchAssignmentsSchema.parse(args);
 
       const result = await this.service.searchAssignments(entityId);
 
@@ -104,7 +113,7 @@ export class AssignmentTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -123,10 +132,21 @@ export class AssignmentTool {
     }
   }
 
+  /**
+   * Register the tools with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new AssignmentTool(service);
+    registry.register(AssignmentTool.getCreateDefinition(), (args) => tool.executeCreate(args));
+    registry.register(AssignmentTool.getDeleteDefinition(), (args) => tool.executeDelete(args));
+    registry.register(AssignmentTool.getSearchDefinition(), (args) => tool.executeSearch(args));
+  }
+
   static getCreateDefinition() {
     return {
       name: 'add_assignment',
       description: 'Add a person (user) to a Target Process entity (UserStory, Bug, Task, Feature, etc.)',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -134,13 +154,11 @@ export class AssignmentTool {
             type: 'number',
             description: 'ID of the entity (UserStory, Bug, Task, etc.) to assign user to',
           },
-          userId: {
-            type: 'number',
-            description: 'ID of the user to assign',
-          },
-          roleId: {
-            type: 'number',
-            description: 'ID of the role (optional, e.g., Developer, QA, etc.)',
+          userId: referenceProperty('ID of the user to assign, or their email, login or full name'),
+          roleId: referenceProperty('ID or name of the role (optional, e.g., Developer, QA, etc.)'),
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
           },
         },
         required: ['entityId', 'userId'],
@@ -152,6 +170,7 @@ export class AssignmentTool {
     return {
       name: 'remove_assignment',
       description: 'Remove a person from a Target Process entity by assignment ID',
+      annotations: { readOnlyHint: false, destructiveHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -169,6 +188,7 @@ export class AssignmentTool {
     return {
       name: 'get_assignments',
       description: 'Get all people assigned to a Target Process entity',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -176,6 +196,10 @@ export class AssignmentTool {
             type: 'number',
             description: 'ID of the entity to get assignments for',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['entityId'],
       },
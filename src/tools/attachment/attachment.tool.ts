@@ -0,0 +1,303 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { formatBytes, guessMimeType, isTextMimeType, resolveLocalPath } from '../../api/client/tp.attachments.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+export const addAttachmentSchema = z.object({
+  entityId: z.number().describe('ID of the entity to attach the file to'),
+  filePath: z.string().min(1).optional().describe('Path of a local file, relative to the attachments directory'),
+  content: z.string().optional().describe('Base64-encoded file content, instead of filePath'),
+  fileName: z.string().min(1).optional().describe('File name; required with content'),
+  mimeType: z.string().optional().describe('MIME type (default: derived from the file name)'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+}).refine(args => (args.filePath === undefined) !== (args.content === undefined), {
+  message: 'Provide either filePath or content',
+}).refine(args => args.content === undefined || args.fileName !== undefined, {
+  message: 'fileName is required with content',
+  path: ['fileName'],
+});
+
+export const listAttachmentsSchema = z.object({
+  entityId: z.number().describe('ID of the entity whose attachments to list'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export const getAttachmentSchema = z.object({
+  attachmentId: z.number().describe('ID of the attachment'),
+  savePath: z.string().min(1).optional().describe('Save to this path, relative to the attachments directory'),
+  overwrite: z.boolean().optional().default(false).describe('Replace an existing file at savePath'),
+});
+
+export type AddAttachmentInput = z.infer<typeof addAttachmentSchema>;
+export type ListAttachmentsInput = z.infer<typeof listAttachmentsSchema>;
+export type GetAttachmentInput = z.infer<typeof getAttachmentSchema>;
+
+interface AttachmentData {
+  Id: number;
+  Name?: string;
+  MimeType?: string;
+  Size?: number;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/\r\n]*={0,2}\s*$/;
+
+export class AttachmentTool {
+  constructor(private service: TPService) {}
+
+  async executeAdd(args: unknown) {
+    try {
+      const { entityId, filePath, content, fileName, mimeType, raw } = addAttachmentSchema.parse(args);
+      const { directory, maxUploadBytes } = this.service.getAttachmentConfig();
+
+      let data: Buffer;
+      let name: string;
+      if (filePath !== undefined) {
+        const resolved = await resolveLocalPath(directory, filePath);
+        const stat = await fs.stat(resolved).catch(() => undefined);
+        if (!stat?.isFile()) {
+          throw new McpError(ErrorCode.InvalidParams, `File not found: ${filePath}`);
+        }
+        // Check before reading, so a huge file is never loaded into memory
+        if (stat.size > maxUploadBytes) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `File is ${formatBytes(stat.size)}; the upload limit is ${formatBytes(maxUploadBytes)}`
+          );
+        }
+        data = await fs.readFile(resolved);
+        name = fileName || path.basename(resolved);
+      } else {
+        if (!BASE64_PATTERN.test(content!)) {
+          throw new McpError(ErrorCode.InvalidParams, 'content must be base64-encoded');
+        }
+        data = Buffer.from(content!, 'base64');
+        name = fileName!;
+      }
+
+      const result = await this.service.uploadAttachment(entityId, name, data, mimeType || guessMimeType(name));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid add attachment parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Add attachment failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async executeList(args: unknown) {
+    try {
+      const { entityId, raw } = listAttachmentsSchema.parse(args);
+
+      const result = await this.service.getAttachments(entityId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid list attachments parameters: ${error.message}`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `List attachments failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async executeGet(args: unknown) {
+    try {
+      const { attachmentId, savePath, overwrite } = getAttachmentSchema.parse(args);
+      const { directory, maxInlineBytes } = this.service.getAttachmentConfig();
+
+      const attachment = await this.service.getEntity<AttachmentData>('Attachment', attachmentId);
+      const info = {
+        id: attachment.Id,
+        name: attachment.Name,
+        mimeType: attachment.MimeType,
+        size: attachment.Size,
+      };
+
+      if (savePath === undefined) {
+        // Only small text files are returned inline; anything else must be saved
+        if (!isTextMimeType(attachment.MimeType) || (attachment.Size ?? 0) > maxInlineBytes) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Attachment ${attachmentId} (${attachment.MimeType || 'unknown type'}, ${formatBytes(attachment.Size ?? 0)}) cannot be returned as text; pass savePath to download it`
+          );
+        }
+
+        const data = await this.service.downloadAttachment(attachmentId);
+        return {
+          content: [
+            { type: 'text', text: JSON.stringify(info, null, 2) },
+            { type: 'text', text: data.toString('utf8') },
+          ],
+        };
+      }
+
+      const target = await resolveLocalPath(directory, savePath);
+      if (!overwrite && await fs.stat(target).then(() => true, () => false)) {
+        throw new McpError(ErrorCode.InvalidParams, `File already exists: ${savePath}; pass overwrite to replace it`);
+      }
+
+      const data = await this.service.downloadAttachment(attachmentId);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ ...info, savedTo: target, bytes: data.length }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid get attachment parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Get attachment failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tools with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new AttachmentTool(service);
+    registry.register(AttachmentTool.getAddDefinition(), (args) => tool.executeAdd(args));
+    registry.register(AttachmentTool.getListDefinition(), (args) => tool.executeList(args));
+    registry.register(AttachmentTool.getGetDefinition(), (args) => tool.executeGet(args));
+  }
+
+  static getAddDefinition() {
+    return {
+      name: 'add_attachment',
+      description: 'Attach a file (log, screenshot, export) to a Target Process entity. Pass a local filePath inside the server\'s attachments directory, or base64 content with a fileName.',
+      annotations: { readOnlyHint: false },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          entityId: {
+            type: 'number',
+            description: 'ID of the entity to attach the file to (UserStory, Bug, Task, ...)',
+          },
+          filePath: {
+            type: 'string',
+            description: 'Path of a local file, relative to the attachments directory',
+          },
+          content: {
+            type: 'string',
+            description: 'Base64-encoded file content, instead of filePath',
+          },
+          fileName: {
+            type: 'string',
+            description: 'File name shown in Target Process; required with content',
+          },
+          mimeType: {
+            type: 'string',
+            description: 'MIME type (default: derived from the file name)',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['entityId'],
+      },
+    } as const;
+  }
+
+  static getListDefinition() {
+    return {
+      name: 'list_attachments',
+      description: 'List the files attached to a Target Process entity, newest first',
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          entityId: {
+            type: 'number',
+            description: 'ID of the entity whose attachments to list',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['entityId'],
+      },
+    } as const;
+  }
+
+  static getGetDefinition() {
+    return {
+      name: 'get_attachment',
+      description: 'Read an attachment. Small text files (logs, JSON, CSV) are returned inline; other files must be saved with savePath inside the server\'s attachments directory.',
+      // savePath writes a file into the local attachments directory
+      annotations: { readOnlyHint: false },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          attachmentId: {
+            type: 'number',
+            description: 'ID of the attachment (see list_attachments)',
+          },
+          savePath: {
+            type: 'string',
+            description: 'Save the file to this path, relative to the attachments directory',
+          },
+          overwrite: {
+            type: 'boolean',
+            description: 'Replace an existing file at savePath',
+            default: false,
+          },
+        },
+        required: ['attachmentId'],
+      },
+    } as const;
+  }
+}
@@ -0,0 +1,89 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+export const cacheControlSchema = z.object({
+  action: z.enum(['stats', 'flush']),
+  type: z.string().optional().describe('Only flush entries of this entity type ("meta" for metadata)'),
+  id: z.number().optional().describe('Only flush entries for this entity ID'),
+});
+
+export type CacheControlInput = z.infer<typeof cacheControlSchema>;
+
+/**
+ * Handler for the cache control tool
+ */
+export class CacheControlTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown) {
+    try {
+      const { action, type, id } = cacheControlSchema.parse(args);
+
+      const result = action === 'flush'
+        ? { flushed: this.service.flushCache({ type, id }), stats: this.service.getCacheStats() }
+        : this.service.getCacheStats();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid cache control parameters: ${error.message}`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Cache control failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new CacheControlTool(service);
+    registry.register(CacheControlTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'cache_control',
+      description: 'Inspect or flush the server-side response cache. Use "flush" when you need data that was changed outside this server to show up immediately.',
+      // Flushing only affects the local cache, never Target Process data
+      annotations: { readOnlyHint: true, idempotentHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['stats', 'flush'],
+            description: 'stats: entry counts and hit rate; flush: drop cached responses',
+          },
+          type: {
+            type: 'string',
+            description: 'With flush: only drop entries of this entity type (e.g. UserStory, or "meta" for metadata)',
+          },
+          id: {
+            type: 'number',
+            description: 'With flush: only drop entries for this entity ID',
+          },
+        },
+        required: ['action'],
+      },
+    } as const;
+  }
+}
@@ -1,31 +1,295 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { User } from '../../entities/base/base.types.js';
+import { escapeHtml, findMentions, markdownToHtml } from '../../output/markdown.html.js';
+import { formatOutput } from '../../output/output.formatter.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+const contentTypeEnum = z.enum(['markdown', 'html']);
 
 export const createCommentSchema = z.object({
   entityId: z.number().describe('ID of the entity to comment on'),
   description: z.string().describe('Comment text (supports markdown)'),
+  contentType: contentTypeEnum.optional().default('markdown').describe('Markup of the description (default: markdown)'),
+  replyTo: z.number().int().optional().describe('ID of the comment to reply to'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export const getCommentsSchema = z.object({
+  entityId: z.number().describe('ID of the entity whose comments to return'),
+  order: z.enum(['oldest', 'newest']).optional().default('oldest').describe('oldest (default) or newest first'),
+  take: z.number().int().min(1).max(1000).optional().default(100).describe('Number of comments to return (default: 100)'),
+  skip: z.number().int().min(0).optional().default(0).describe('Number of comments to skip'),
+  threaded: z.boolean().optional().default(false).describe('Nest replies under the comment they answer'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export const updateCommentSchema = z.object({
+  commentId: z.number().describe('ID of the comment to update'),
+  description: z.string().describe('New comment text (supports markdown)'),
+  contentType: contentTypeEnum.optional().default('markdown').describe('Markup of the description (default: markdown)'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export const deleteCommentSchema = z.object({
+  commentId: z.number().describe('ID of the comment to delete'),
 });
 
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type GetCommentsInput = z.infer<typeof getCommentsSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type DeleteCommentInput = z.infer<typeof deleteCommentSchema>;
+
+interface CommentData {
+  Id: number;
+  Description?: string | null;
+  CreateDate?: string;
+  ModifyDate?: string;
+  ParentId?: number | null;
+  Owner?: Partial<User> | null;
+}
+
+interface CommentView {
+  Id: number;
+  ParentId: number | null;
+  Author: string | null;
+  CreateDate?: string;
+  ModifyDate?: string;
+  Description: string;
+  Replies?: CommentView[];
+}
+
+/**
+ * Mention markup of the Target Process rich text editor
+ */
+function mentionHtml(user: User): string {
+  const name = [user.FirstName, user.LastName].filter(Boolean).join(' ') || user.Login;
+  return `<span class="mention" data-type="user" data-id="${user.Id}">@${escapeHtml(name)}</span>`;
+}
+
+function authorName(owner?: Partial<User> | null): string | null {
+  if (!owner) {
+    return null;
+  }
+  const name = [owner.FirstName, owner.LastName].filter(Boolean).join(' ');
+  if (name && owner.Login) {
+    return `${name} (${owner.Login})`;
+  }
+  return name || owner.Login || null;
+}
+
+/**
+ * Nest replies under their parent. Replies whose parent is not in the list
+ * (e.g. on another page) stay at the top level.
+ */
+function buildThreads(comments: CommentView[]): CommentView[] {
+  const byId = new Map<number, CommentView>(comments.map(comment => [comment.Id, { ...comment, Replies: [] }]));
+  const roots: CommentView[] = [];
+
+  for (const comment of byId.values()) {
+    const parent = comment.ParentId ? byId.get(comment.ParentId) : undefined;
+    if (parent && parent !== comment) {
+      parent.Replies!.push(comment);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  // Leaf comments carry no empty Replies list
+  for (const comment of byId.values()) {
+    if (comment.Replies!.length === 0) {
+      delete comment.Replies;
+    }
+  }
+
+  return roots;
+}
 
 export class CommentTool {
   constructor(private service: TPService) {}
 
-  async execute(args: unknown) {
+  /**
+   * Convert the description to the HTML sent to Target Process; @email and
+   * @login mentions become user mentions, unknown ones stay plain text
+   */
+  private async toHtml(description: string, contentType: 'markdown' | 'html') {
+    const unresolvedMentions: string[] = [];
+    if (contentType === 'html') {
+      return { html: description, unresolvedMentions };
+    }
+
+    const users = new Map<string, User>();
+    for (const token of findMentions(description)) {
+      const user = await this.service.findUser<User>(token);
+      if (user) {
+        users.set(token, user);
+      } else {
+        unresolvedMentions.push(token);
+      }
+    }
+
+    const html = markdownToHtml(description, token => {
+      const user = users.get(token);
+      return user && mentionHtml(user);
+    });
+
+    return { html, unresolvedMentions };
+  }
+
+  private commentResult(result: unknown, raw: boolean | undefined, unresolvedMentions: string[]) {
+    const output = raw ? result : this.service.normalize(result);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            unresolvedMentions.length ? { comment: output, unresolvedMentions } : output,
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * A reply must answer a comment on the same entity; the API would otherwise
+   * attach it to an unrelated thread
+   */
+  private async assertReplyTarget(entityId: number, replyTo: number): Promise<void> {
+    const parent = await this.service.getEntity<{ General?: { Id?: number } | null }>('Comment', replyTo, ['General']);
+    if (parent.General?.Id !== entityId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Comment ${replyTo} belongs to entity ${parent.General?.Id ?? 'unknown'}, not ${entityId}; reply to a comment on the same entity`
+      );
+    }
+  }
+
+  async executeCreate(args: unknown) {
     try {
-      const { entityId, description } = createCommentSchema.parse(args);
+      const { entityId, description, contentType, replyTo, raw } = createCommentSchema.parse(args);
+
+      if (replyTo !== undefined) {
+        await this.assertReplyTarget(entityId, replyTo);
+      }
+
+      const { html, unresolvedMentions } = await this.toHtml(description, contentType);
 
       const result = await this.service.createComment({
-        Description: description,
-        General: { Id: entityId }
+        Description: html,
+        General: { Id: entityId },
+        ...(replyTo !== undefined ? { ParentId: replyTo } : {}),
       });
 
+      return this.commentResult(result, raw, unresolvedMentions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid comment parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Create comment failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async executeGet(args: unknown) {
+    try {
+      const { entityId, order, take, skip, threaded, raw } = getCommentsSchema.parse(args);
+
+      const page = await this.service.getComments<CommentData>(entityId, take, skip, order === 'newest');
+      const paging = {
+        skip: page.skip,
+        returned: page.items.length,
+        hasMore: page.hasMore,
+        nextSkip: page.nextSkip,
+        totalCount: page.totalCount,
+      };
+
+      if (raw) {
+        return {
+          content: this.service.fitItems(page.items, (items, meta) => formatOutput(items, 'json', { meta }), { paging }),
+        };
+      }
+
+      const comments = (this.service.normalize(page.items) as CommentData[]).map((comment): CommentView => ({
+        Id: comment.Id,
+        ParentId: comment.ParentId || null,
+        Author: authorName(comment.Owner),
+        CreateDate: comment.CreateDate,
+        ModifyDate: comment.ModifyDate !== comment.CreateDate ? comment.ModifyDate : undefined,
+        Description: comment.Description ?? '',
+      }));
+
+      return {
+        content: this.service.fitItems(
+          threaded ? buildThreads(comments) : comments,
+          (items, meta) => formatOutput(items, 'json', { meta }),
+          { paging }
+        ),
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid get comments parameters: ${error.message}`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Get comments failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async executeUpdate(args: unknown) {
+    try {
+      const { commentId, description, contentType, raw } = updateCommentSchema.parse(args);
+
+      const { html, unresolvedMentions } = await this.toHtml(description, contentType);
+
+      const result = await this.service.updateComment(commentId, { Description: html });
+
+      return this.commentResult(result, raw, unresolvedMentions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid update comment parameters: ${error.message}`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Update comment failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async executeDelete(args: unknown) {
+    try {
+      const { commentId } = deleteCommentSchema.parse(args);
+
+      await this.service.deleteComment(commentId);
+
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify({ success: true, message: `Comment ${commentId} deleted` }, null, 2),
           },
         ],
       };
@@ -33,21 +297,33 @@ export class CommentTool {
       if (error instanceof z.ZodError) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          `Invalid comment parameters: ${error.message}`
+          `Invalid delete comment parameters: ${error.message}`
         );
       }
 
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Create comment failed: ${error instanceof Error ? error.message : String(error)}`
+        `Delete comment failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  static getDefinition() {
+  /**
+   * Register the tools with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new CommentTool(service);
+    registry.register(CommentTool.getCreateDefinition(), (args) => tool.executeCreate(args));
+    registry.register(CommentTool.getGetDefinition(), (args) => tool.executeGet(args));
+    registry.register(CommentTool.getUpdateDefinition(), (args) => tool.executeUpdate(args));
+    registry.register(CommentTool.getDeleteDefinition(), (args) => tool.executeDelete(args));
+  }
+
+  static getCreateDefinition() {
     return {
       name: 'create_comment',
-      description: 'Create a comment on a Target Process entity (UserStory, Bug, Task, Feature, etc.)',
+      description: 'Create a comment on a Target Process entity (UserStory, Bug, Task, Feature, etc.). Markdown is converted to HTML; @email or @login mentions notify the user.',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -57,11 +333,119 @@ export class CommentTool {
           },
           description: {
             type: 'string',
-            description: 'Comment text (supports markdown)',
+            description: 'Comment text in Markdown (lists, code blocks, tables, links). Mention users with @email or @login',
+          },
+          contentType: {
+            type: 'string',
+            enum: ['markdown', 'html'],
+            description: 'Markup of the description; html is sent unchanged (default: markdown)',
+            default: 'markdown',
+          },
+          replyTo: {
+            type: 'number',
+            description: 'ID of a comment on the same entity to reply to, to keep the discussion threaded',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
           },
         },
         required: ['entityId', 'description'],
       },
     } as const;
   }
+
+  static getGetDefinition() {
+    return {
+      name: 'get_comments',
+      description: 'Read the comments of a Target Process entity with author, date and Markdown text. Read the discussion before posting; use threaded to nest replies.',
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          entityId: {
+            type: 'number',
+            description: 'ID of the entity whose comments to return',
+          },
+          order: {
+            type: 'string',
+            enum: ['oldest', 'newest'],
+            description: 'oldest (default) or newest first',
+            default: 'oldest',
+          },
+          take: {
+            type: 'number',
+            description: 'Number of comments to return (default: 100)',
+            minimum: 1,
+            maximum: 1000,
+          },
+          skip: {
+            type: 'number',
+            description: 'Number of comments to skip; use paging.nextSkip for the next page',
+            minimum: 0,
+          },
+          threaded: {
+            type: 'boolean',
+            description: 'Nest replies under the comment they answer (Replies). Replies to comments on other pages stay at the top level',
+            default: false,
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['entityId'],
+      },
+    } as const;
+  }
+
+  static getUpdateDefinition() {
+    return {
+      name: 'update_comment',
+      description: 'Replace the text of an existing comment, e.g. to fix a mistake in a comment posted earlier',
+      annotations: { readOnlyHint: false, idempotentHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentId: {
+            type: 'number',
+            description: 'ID of the comment to update',
+          },
+          description: {
+            type: 'string',
+            description: 'New comment text in Markdown. Mention users with @email or @login',
+          },
+          contentType: {
+            type: 'string',
+            enum: ['markdown', 'html'],
+            description: 'Markup of the description; html is sent unchanged (default: markdown)',
+            default: 'markdown',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['commentId', 'description'],
+      },
+    } as const;
+  }
+
+  static getDeleteDefinition() {
+    return {
+      name: 'delete_comment',
+      description: 'Delete a comment',
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentId: {
+            type: 'number',
+            description: 'ID of the comment to delete',
+          },
+        },
+        required: ['commentId'],
+      },
+    } as const;
+  }
 }
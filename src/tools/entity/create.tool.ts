@@ -1,6 +1,11 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { buildCustomFields } from '../../api/client/tp.customfields.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+import { referenceObjectProperty, referenceObjectSchema, referenceOf } from '../reference.js';
+import { customFieldsProperty, customFieldsSchema } from './custom-fields.js';
 
 // Input schema for create entity tool
 export const createEntitySchema = z.object({
@@ -13,15 +18,12 @@ export const createEntitySchema = z.object({
   ]),
   name: z.string(),
   description: z.string().optional(),
-  project: z.object({
-    id: z.number(),
-  }),
-  team: z.object({
-    id: z.number(),
-  }).optional(),
-  assignedUser: z.object({
-    id: z.number(),
-  }).optional(),
+  project: referenceObjectSchema,
+  team: referenceObjectSchema.optional(),
+  assignedUser: referenceObjectSchema.optional(),
+  priority: referenceObjectSchema.optional(),
+  customFields: customFieldsSchema.optional(),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export type CreateEntityInput = z.infer<typeof createEntitySchema>;
@@ -34,14 +36,29 @@ export class CreateEntityTool {
 
   async execute(args: unknown) {
     try {
-      const { type, ...data } = createEntitySchema.parse(args);
+      const { type, raw, customFields, ...data } = createEntitySchema.parse(args);
+
+      const projectId = await this.service.resolveReference('Project', referenceOf(data.project));
+      const teamId = data.team && await this.service.resolveReference('Team', referenceOf(data.team));
+      const assignedUserId = data.assignedUser && await this.service.resolveReference('User', referenceOf(data.assignedUser));
+      const priorityId = data.priority && await this.service.resolveReference('Priority', referenceOf(data.priority), { entityType: type });
+
+      let CustomFields;
+      if (customFields) {
+        // A new project's process is not known yet; its fields are the ones outside any process
+        const processId = type === 'Project' ? undefined : await this.service.getProcessId('Project', projectId);
+        const definitions = await this.service.getCustomFieldDefinitions(type, processId);
+        CustomFields = buildCustomFields(type, definitions, customFields, { create: true });
+      }
 
       const apiRequest = {
         Name: data.name,
         Description: data.description,
-        Project: data.project ? { Id: data.project.id } : undefined,
-        Team: data.team ? { Id: data.team.id } : undefined,
-        AssignedUser: data.assignedUser ? { Id: data.assignedUser.id } : undefined
+        Project: { Id: projectId },
+        Team: teamId !== undefined ? { Id: teamId } : undefined,
+        AssignedUser: assignedUserId !== undefined ? { Id: assignedUserId } : undefined,
+        Priority: priorityId !== undefined ? { Id: priorityId } : undefined,
+        CustomFields
       };
 
       const result = await this.service.createEntity(
@@ -53,7 +70,7 @@ export class CreateEntityTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -65,6 +82,10 @@ export class CreateEntityTool {
         );
       }
 
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Create entity failed: ${error instanceof Error ? error.message : String(error)}`
@@ -72,13 +93,22 @@ export class CreateEntityTool {
     }
   }
 
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new CreateEntityTool(service);
+    registry.register(CreateEntityTool.getDefinition(), (args) => tool.execute(args));
+  }
+
   /**
    * Get tool definition for MCP
    */
   static getDefinition() {
     return {
       name: 'create_entity',
-      description: 'Create a new Target Process entity',
+      description: 'Create a new Target Process entity. Custom field values go in customFields and are checked against the project\'s process.',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -101,33 +131,14 @@ export class CreateEntityTool {
             type: 'string',
             description: 'Description of the entity',
           },
-          project: {
-            type: 'object',
-            properties: {
-              id: {
-                type: 'number',
-                description: 'Project ID',
-              },
-            },
-            required: ['id'],
-          },
-          team: {
-            type: 'object',
-            properties: {
-              id: {
-                type: 'number',
-                description: 'Team ID',
-              },
-            },
-          },
-          assignedUser: {
-            type: 'object',
-            properties: {
-              id: {
-                type: 'number',
-                description: 'User ID to assign',
-              },
-            },
+          project: referenceObjectProperty('Project, by ID or by name', 'Name or abbreviation'),
+          team: referenceObjectProperty('Team, by ID or by name', 'Name or abbreviation'),
+          assignedUser: referenceObjectProperty('User to assign, by ID or by name', 'Email, login or full name'),
+          priority: referenceObjectProperty('Priority, by ID or by name (e.g. High)'),
+          customFields: customFieldsProperty,
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
           },
         },
         required: ['type', 'name', 'project'],
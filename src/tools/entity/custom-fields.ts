@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+const entityInputSchema = z.object({
+  id: z.number(),
+  type: z.string().optional(),
+});
+
+const scalarInputSchema = z.union([z.string(), z.number(), z.boolean(), entityInputSchema]);
+
+// Custom field values by field name; validated against the process's definitions by the service
+export const customFieldsSchema = z.record(
+  z.string(),
+  z.union([scalarInputSchema, z.array(scalarInputSchema), z.null()])
+);
+
+const entityInputProperty = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', description: 'Entity ID' },
+    type: { type: 'string', description: 'Entity type, e.g. UserStory (required for multiple-entity fields)' },
+  },
+  required: ['id'],
+};
+
+/**
+ * JSON schema of the customFields argument of create_entity and update_entity
+ */
+export const customFieldsProperty = {
+  type: 'object',
+  description: 'Custom field values by field name, e.g. { "Severity Level": "High", "Due": "2024-06-01", "Components": ["API", "UI"] }. '
+    + 'Checked against the custom fields of the entity\'s process: drop-downs take one of their options, multi-selects a list of options, '
+    + 'dates YYYY-MM-DD or ISO date-time, entity fields an ID or { id, type }; null clears a field.',
+  additionalProperties: {
+    anyOf: [
+      { type: 'string' },
+      { type: 'number' },
+      { type: 'boolean' },
+      { type: 'null' },
+      entityInputProperty,
+      { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }, entityInputProperty] } },
+    ],
+  },
+};
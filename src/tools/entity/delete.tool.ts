@@ -0,0 +1,248 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { DeletionImpact, WORKFLOW_TYPES } from '../../api/client/tp.deletion.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+// Input schema for delete entity tool
+export const deleteEntitySchema = z.object({
+  type: z.enum([
+    'UserStory', 'Bug', 'Task', 'Feature',
+    'Epic', 'PortfolioEpic', 'Solution',
+    'Request', 'Impediment', 'TestCase', 'TestPlan',
+    'Project', 'Team', 'Iteration', 'TeamIteration',
+    'Release', 'Program'
+  ]),
+  id: z.number(),
+  confirm: z.string().optional().describe('Token from the dry run; without it nothing is changed'),
+  archive: z.boolean().optional().describe('Move the entity to the archive state instead of deleting it'),
+});
+
+export type DeleteEntityInput = z.infer<typeof deleteEntitySchema>;
+
+type DeleteAction = 'delete' | 'archive';
+
+interface ConfirmPayload {
+  type: string;
+  id: number;
+  action: DeleteAction;
+  expiresAt: number;
+  /** Digest of the dependency report the caller confirmed */
+  impact: string;
+}
+
+const CONFIRM_TTL_MS = 10 * 60 * 1000;
+
+function impactDigest(impact: DeletionImpact): string {
+  return createHash('sha256').update(JSON.stringify(impact.dependents)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Handler for the delete entity tool. A call without confirm is a dry run that
+ * reports what would be affected and returns a signed confirm token; only a
+ * call with that token deletes or archives, and each token works once.
+ */
+export class DeleteEntityTool {
+  // Per-process key: tokens cannot be forged and do not survive a restart
+  private readonly secret = randomBytes(32);
+  /** Signatures of tokens already used, kept until the tokens expire */
+  private readonly usedTokens = new Map<string, number>();
+
+  constructor(private service: TPService) {}
+
+  private sign(payload: ConfirmPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = createHmac('sha256', this.secret).update(body).digest('base64url');
+    return `${body}.${signature}`;
+  }
+
+  private verify(token: string): ConfirmPayload {
+    const [body, signature] = token.split('.');
+    const expected = createHmac('sha256', this.secret).update(body || '').digest();
+    const actual = Buffer.from(signature || '', 'base64url');
+
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid confirm token; run delete_entity without confirm to get one');
+    }
+
+    const payload: ConfirmPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (payload.expiresAt < Date.now()) {
+      throw new McpError(ErrorCode.InvalidParams, 'Confirm token has expired; run delete_entity without confirm again');
+    }
+    if (this.usedTokens.has(signature)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Confirm token has already been used; run delete_entity without confirm to get a new one');
+    }
+    return payload;
+  }
+
+  /**
+   * Mark a verified token as used; expired tokens are rejected anyway, so they are forgotten
+   */
+  private consume(token: string, payload: ConfirmPayload): void {
+    const now = Date.now();
+    for (const [signature, expiresAt] of this.usedTokens) {
+      if (expiresAt < now) {
+        this.usedTokens.delete(signature);
+      }
+    }
+    this.usedTokens.set(token.split('.')[1], payload.expiresAt);
+  }
+
+  /**
+   * The workflow state an entity is archived to
+   */
+  private async archiveStateOf(type: string, id: number): Promise<{ Id: number; Name: string }> {
+    const { archiveState } = this.service.getDeletionConfig();
+    if (!WORKFLOW_TYPES.has(type)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${type} has no workflow state, so it cannot be archived. Archiving works for: ${[...WORKFLOW_TYPES].join(', ')}`
+      );
+    }
+
+    const { states } = await this.service.getEntityStates(type, id);
+    const state = states.find(candidate => candidate.Name.toLowerCase() === archiveState.toLowerCase());
+
+    if (!state) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The workflow of ${type} ${id} has no '${archiveState}' state to archive to. Available states: ${states.map(candidate => candidate.Name).join(', ')}`
+      );
+    }
+    return state;
+  }
+
+  async execute(args: unknown) {
+    try {
+      const { type, id, confirm, archive } = deleteEntitySchema.parse(args);
+      const { mode } = this.service.getDeletionConfig();
+      const action: DeleteAction = mode === 'archive' || archive ? 'archive' : 'delete';
+
+      const archiveState = action === 'archive' ? await this.archiveStateOf(type, id) : undefined;
+      const impact = await this.service.getDeletionImpact(type, id);
+
+      if (!confirm) {
+        const token = this.sign({ type, id, action, expiresAt: Date.now() + CONFIRM_TTL_MS, impact: impactDigest(impact) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                dryRun: true,
+                action,
+                ...(archiveState ? { archiveState: archiveState.Name } : {}),
+                ...impact,
+                confirm: token,
+                message: `Nothing was changed. To ${action} ${type} ${id}, call delete_entity again with the same type and id and this confirm token within ${CONFIRM_TTL_MS / 60000} minutes.`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const confirmed = this.verify(confirm);
+      if (confirmed.type !== type || confirmed.id !== id || confirmed.action !== action) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Confirm token was issued to ${confirmed.action} ${confirmed.type} ${confirmed.id}, not to ${action} ${type} ${id}`
+        );
+      }
+      if (confirmed.impact !== impactDigest(impact)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `What depends on ${type} ${id} has changed since the dry run; run delete_entity without confirm to review the new report`
+        );
+      }
+
+      this.consume(confirm, confirmed);
+      if (archiveState) {
+        await this.service.updateEntity(type, id, { EntityState: { Id: archiveState.Id } });
+      } else {
+        await this.service.deleteEntity(type, id);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              action,
+              ...(archiveState ? { archiveState: archiveState.Name } : {}),
+              ...impact,
+              message: archiveState
+                ? `${type} ${id} moved to '${archiveState.Name}'`
+                : `${type} ${id} deleted`,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid delete entity parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Delete entity failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new DeleteEntityTool(service);
+    registry.register(DeleteEntityTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'delete_entity',
+      description: 'Delete a Target Process entity, or archive it by moving it to the archive state. Call first without confirm: nothing is changed, and the response lists what would be affected (child tasks and bugs, relations, assignments, role efforts, comments, attachments) with a confirm token. Call again with the token to proceed.',
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: [
+              'UserStory', 'Bug', 'Task', 'Feature',
+              'Epic', 'PortfolioEpic', 'Solution',
+              'Request', 'Impediment', 'TestCase', 'TestPlan',
+              'Project', 'Team', 'Iteration', 'TeamIteration',
+              'Release', 'Program'
+            ],
+            description: 'Type of entity to delete',
+          },
+          id: {
+            type: 'number',
+            description: 'ID of the entity',
+          },
+          confirm: {
+            type: 'string',
+            description: 'confirm token from the dry run response. Omit it to get the dependency report',
+          },
+          archive: {
+            type: 'boolean',
+            description: 'Move the entity to the archive state (e.g. Removed) instead of deleting it. Always on when the server only allows archiving',
+          },
+        },
+        required: ['type', 'id'],
+      },
+    } as const;
+  }
+}
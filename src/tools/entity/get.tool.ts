@@ -1,6 +1,10 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
+import { includesForFields } from '../../api/query/aggregate.js';
+import { OUTPUT_FORMATS, formatOutput } from '../../output/output.formatter.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
 
 // Input schema for get entity tool
 export const getEntitySchema = z.object({
@@ -14,6 +18,9 @@ export const getEntitySchema = z.object({
   id: z.number(),
   include: z.array(z.string()).optional(),
   allow_informative_errors: z.boolean().optional().default(false),
+  fields: z.array(z.string().min(1)).optional(),
+  format: z.enum(OUTPUT_FORMATS).optional(),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export type GetEntityInput = z.infer<typeof getEntitySchema>;
@@ -26,22 +33,17 @@ export class GetEntityTool {
 
   async execute(args: unknown) {
     try {
-      const { type, id, include, allow_informative_errors } = getEntitySchema.parse(args);
+      const { type, id, include, allow_informative_errors, fields, format, raw } = getEntitySchema.parse(args);
 
       try {
         const result = await this.service.getEntity(
           type,
           id,
-          include
+          include ?? (fields?.length ? includesForFields(fields) : undefined)
         );
 
         return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
+          content: formatOutput(raw ? result : this.service.normalize(result), format, { fields }),
         };
       } catch (error) {
         // If informative errors are allowed, extract useful metadata
@@ -87,6 +89,14 @@ export class GetEntityTool {
     }
   }
 
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new GetEntityTool(service);
+    registry.register(GetEntityTool.getDefinition(), (args) => tool.execute(args));
+  }
+
   /**
    * Get tool definition for MCP
    */
@@ -94,6 +104,7 @@ export class GetEntityTool {
     return {
       name: 'get_entity',
       description: 'Get details of a specific Target Process entity',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -123,7 +134,23 @@ export class GetEntityTool {
             type: 'boolean',
             description: 'When true, returns useful metadata even when operation fails',
             default: false
-          }
+          },
+          fields: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Dot paths to return, e.g. ["Id", "Name", "AssignedUser.Email"]',
+          },
+          format: {
+            type: 'string',
+            enum: OUTPUT_FORMATS,
+            description: 'Output format: json (default), compact-json, markdown-table, csv or ndjson',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['type', 'id'],
       },
@@ -0,0 +1,159 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { ApiResponse } from '../../api/client/api.types.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+// Input schema for transition entity tool
+export const transitionEntitySchema = z.object({
+  type: z.enum([
+    'UserStory', 'Bug', 'Task', 'Feature',
+    'Epic', 'PortfolioEpic',
+    'Request', 'Impediment', 'TestPlan'
+  ]),
+  id: z.number(),
+  state: z.string().min(1).describe('Name of the target state, e.g. In Testing'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export type TransitionEntityInput = z.infer<typeof transitionEntitySchema>;
+
+interface WorkflowState {
+  Id: number;
+  Name: string;
+  IsInitial?: boolean;
+  IsFinal?: boolean;
+  NextStates?: ApiResponse<{ Id: number; Name: string }>;
+}
+
+/**
+ * Handler for the transition entity tool: moves an entity to a workflow state
+ * given by name, if its process allows the move from the current state
+ */
+export class TransitionEntityTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown) {
+    try {
+      const { type, id, state, raw } = transitionEntitySchema.parse(args);
+
+      const { current, states } = await this.service.getEntityStates<WorkflowState>(type, id);
+      const target = states.find(candidate => candidate.Name.toLowerCase() === state.trim().toLowerCase());
+      if (!target) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `The workflow of ${type} ${id} has no state '${state}'. States: ${states.map(candidate => candidate.Name).join(', ')}`
+        );
+      }
+
+      if (target.Id === current?.Id) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, changed: false, message: `${type} ${id} is already in '${target.Name}'` }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // The allowed moves are only known from a state of this workflow
+      const from = states.find(candidate => candidate.Id === current?.Id);
+      if (!from) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `The current state${current?.Name ? ` '${current.Name}'` : ''} of ${type} ${id} is not in its workflow, so the move to '${target.Name}' cannot be checked`
+        );
+      }
+
+      // A known state without configured next states does not restrict transitions
+      const nextStates = from.NextStates?.Items || [];
+      if (nextStates.length > 0 && !nextStates.some(next => next.Id === target.Id)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${type} ${id} cannot move from '${from.Name}' to '${target.Name}'. Valid next states: ${nextStates.map(next => next.Name).join(', ')}`
+        );
+      }
+
+      const result = await this.service.updateEntity(type, id, { EntityState: { Id: target.Id } });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              changed: true,
+              from: from.Name,
+              to: target.Name,
+              entity: raw ? result : this.service.normalize(result),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid transition entity parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Transition entity failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new TransitionEntityTool(service);
+    registry.register(TransitionEntityTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'transition_entity',
+      description: 'Move an entity to another workflow state by name (e.g. "In Testing"). The state is looked up in the workflow of the entity\'s process; a move the workflow does not allow is rejected with the valid next states.',
+      annotations: { readOnlyHint: false },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: [
+              'UserStory', 'Bug', 'Task', 'Feature',
+              'Epic', 'PortfolioEpic',
+              'Request', 'Impediment', 'TestPlan'
+            ],
+            description: 'Type of entity to move',
+          },
+          id: {
+            type: 'number',
+            description: 'ID of the entity',
+          },
+          state: {
+            type: 'string',
+            description: 'Name of the target state (case-insensitive), e.g. In Testing',
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['type', 'id', 'state'],
+      },
+    } as const;
+  }
+}
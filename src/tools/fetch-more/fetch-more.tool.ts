@@ -0,0 +1,79 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+export const fetchMoreSchema = z.object({
+  continuation: z.string().min(1).describe('truncation.continuation from a truncated response'),
+  maxResponseChars: z.number().int().min(1000).optional().describe('Character budget for this part (cannot exceed the server limit)'),
+});
+
+export type FetchMoreInput = z.infer<typeof fetchMoreSchema>;
+
+/**
+ * Handler for the fetch more tool
+ */
+export class FetchMoreTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown) {
+    try {
+      const { continuation, maxResponseChars } = fetchMoreSchema.parse(args);
+
+      return {
+        content: this.service.fetchMore(continuation, maxResponseChars),
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid fetch more parameters: ${error.message}`
+        );
+      }
+
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Fetch more failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new FetchMoreTool(service);
+    registry.register(FetchMoreTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'fetch_more',
+      description: 'Continue a response that was cut to fit the response size limit. Pass truncation.continuation from that response; repeat while the result reports remaining items or characters. Continuations name the instance that produced them and expire after a few minutes.',
+      // Reads a server-side buffer; each call advances it
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          continuation: {
+            type: 'string',
+            description: 'truncation.continuation from a truncated response',
+          },
+          maxResponseChars: {
+            type: 'number',
+            description: 'Character budget for this part (cannot exceed the server limit)',
+            minimum: 1000,
+          },
+        },
+        required: ['continuation'],
+      },
+    } as const;
+  }
+}
@@ -1,6 +1,7 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
@@ -348,6 +349,14 @@ export class InspectObjectTool {
     }
   }
 
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new InspectObjectTool(service);
+    registry.register(InspectObjectTool.getDefinition(), (args) => tool.execute(args));
+  }
+
   /**
    * Get tool definition for MCP
    */
@@ -355,6 +364,7 @@ export class InspectObjectTool {
     return {
       name: 'inspect_object',
       description: 'Inspect Target Process objects and properties through the API. This tool also provides API discovery capabilities through error messages when used with unsupported entity types.',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -0,0 +1,43 @@
+import { TPInstanceManager } from '../../api/client/tp.instances.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+/**
+ * Handler for the list instances tool
+ */
+export class InstanceTool {
+  constructor(private instances: TPInstanceManager) {}
+
+  async execute(_args: unknown) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(this.instances.describe(), null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, instances: TPInstanceManager) {
+    const tool = new InstanceTool(instances);
+    registry.register(InstanceTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'list_instances',
+      description: 'List the configured Target Process instances (e.g. production, sandbox). Pass an instance name as the "instance" argument of any other tool to target it. Includes rate limiter diagnostics (queue depth, requests in flight, wait times).',
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    } as const;
+  }
+}
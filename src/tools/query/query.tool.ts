@@ -0,0 +1,123 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService } from '../../api/client/tp.service.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+
+export const apiV2QuerySchema = z.object({
+  type: z.string().describe('Entity type, e.g. UserStory, Bug'),
+  select: z.string().optional().describe('Projection, e.g. {id,name,effort,assignedUser.fullName}'),
+  where: z.string().optional().describe('Filter in API v2 syntax, e.g. (entityState.isFinal==false and project.id==55)'),
+  result: z.string().optional().describe('Aggregate instead of items, e.g. count or {total:sum(effort)}'),
+  orderBy: z.string().optional().describe('Sort expression, e.g. createDate desc'),
+  take: z.number().min(1).max(1000).optional(),
+  skip: z.number().min(0).optional(),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
+});
+
+export type ApiV2QueryInput = z.infer<typeof apiV2QuerySchema>;
+
+/**
+ * Handler for the API v2 query tool
+ */
+export class ApiV2QueryTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown) {
+    try {
+      const { type, raw, ...query } = apiV2QuerySchema.parse(args);
+
+      const result = await this.service.queryV2(type, query);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid API v2 query parameters: ${error.message}`
+        );
+      }
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `API v2 query failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new ApiV2QueryTool(service);
+    registry.register(ApiV2QueryTool.getDefinition(), (args) => tool.execute(args));
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'api_v2_query',
+      description: `Query Target Process API v2, which computes projections and aggregations on the server. Prefer it over search_entities when you only need a few fields or a count/sum.
+
+Expressions use API v2 syntax (camelCase fields, ==, !=, and, or, "double-quoted" strings):
+- Projection: select={id,name,effort,assignedUser.fullName}
+- Filter: where=(entityState.isFinal==false and project.id==55)
+- Aggregate: result=count, or result={total:sum(effort),open:count(entityState.isFinal==false)}
+- Per-container aggregates: type=Project, select={name,openBugs:bugs.where(entityState.isFinal==false).count,effort:userStories.sum(effort)}`,
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            description: 'Entity type to query, e.g. UserStory, Bug, Feature, Project',
+          },
+          select: {
+            type: 'string',
+            description: 'Projection, e.g. {id,name,effort,assignedUser.fullName}',
+          },
+          where: {
+            type: 'string',
+            description: 'Filter in API v2 syntax, e.g. (entityState.isFinal==false and project.id==55)',
+          },
+          result: {
+            type: 'string',
+            description: 'Return an aggregate instead of items, e.g. count or {total:sum(effort)}',
+          },
+          orderBy: {
+            type: 'string',
+            description: 'Sort expression, e.g. createDate desc',
+          },
+          take: {
+            type: 'number',
+            description: 'Number of items to return (max 1000)',
+            minimum: 1,
+            maximum: 1000,
+          },
+          skip: {
+            type: 'number',
+            description: 'Number of items to skip',
+            minimum: 0,
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
+        },
+        required: ['type'],
+      },
+    } as const;
+  }
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { Reference } from '../api/client/tp.resolver.js';
+
+// An ID, or a name the service resolves to one (see TPService.resolveReference)
+export const referenceSchema = z.union([z.number(), z.string().min(1)]);
+
+// { id } or { name } form used by the entity fields of create_entity and update_entity
+export const referenceObjectSchema = z.union([
+  z.object({ id: z.number() }),
+  z.object({ name: z.string().min(1) }),
+]);
+
+export type ReferenceObject = z.infer<typeof referenceObjectSchema>;
+
+export function referenceOf(ref: ReferenceObject): Reference {
+  return 'id' in ref ? ref.id : ref.name;
+}
+
+/**
+ * JSON schema of a flat ID-or-name argument
+ */
+export function referenceProperty(description: string) {
+  return {
+    type: ['number', 'string'],
+    description,
+  };
+}
+
+/**
+ * JSON schema of an { id } or { name } argument
+ */
+export function referenceObjectProperty(description: string, name: string = 'Name') {
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'number', description: 'ID' },
+      name: { type: 'string', description: `${name}, instead of id` },
+    },
+    description,
+  };
+}
@@ -1,6 +1,8 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
 
 const relationTypeEnum = z.enum(['Blocker', 'Duplicate', 'Relation', 'Dependency', 'Link']);
 
@@ -16,6 +18,7 @@ export const createRelationSchema = z.object({
   masterId: z.number().describe('ID of the master entity (e.g., the blocking entity)'),
   slaveId: z.number().describe('ID of the slave entity (e.g., the blocked entity)'),
   relationType: relationTypeEnum.describe('Type of relation: Blocker, Duplicate, Relation, Dependency, or Link'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export const deleteRelationSchema = z.object({
@@ -24,6 +27,7 @@ export const deleteRelationSchema = z.object({
 
 export const searchRelationsSchema = z.object({
   entityId: z.number().describe('ID of the entity to find relations for'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export type CreateRelationInput = z.infer<typeof createRelationSchema>;
@@ -35,7 +39,7 @@ export class RelationTool {
 
   async executeCreate(args: unknown) {
     try {
-      const { masterId, slaveId, relationType } = createRelationSchema.parse(args);
+      const { masterId, slaveId, relationType, raw } = createRelationSchema.parse(args);
 
       const relationTypeId = RELATION_TYPE_IDS[relationType];
 
@@ -49,7 +53,7 @@ export class RelationTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -99,7 +103,7 @@ export class RelationTool {
 
   async executeSearch(args: unknown) {
     try {
-      const { entityId } = searchRelationsSchema.parse(args);
+      const { entityId, raw } = searchRelationsSchema.parse(args);
 
       const result = await this.service.searchRelations(entityId);
 
@@ -107,7 +111,7 @@ export class RelationTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -126,10 +130,21 @@ export class RelationTool {
     }
   }
 
+  /**
+   * Register the tools with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new RelationTool(service);
+    registry.register(RelationTool.getCreateDefinition(), (args) => tool.executeCreate(args));
+    registry.register(RelationTool.getDeleteDefinition(), (args) => tool.executeDelete(args));
+    registry.register(RelationTool.getSearchDefinition(), (args) => tool.executeSearch(args));
+  }
+
   static getCreateDefinition() {
     return {
       name: 'create_relation',
       description: 'Create a relation between two Target Process entities (e.g., Bug blocks UserStory, Task duplicates Bug)',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -146,6 +161,10 @@ export class RelationTool {
             enum: ['Blocker', 'Duplicate', 'Relation', 'Dependency', 'Link'],
             description: 'Type of relation: Blocker (master blocks slave), Duplicate (master duplicates slave), Relation (generic relation), Dependency, Link',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['masterId', 'slaveId', 'relationType'],
       },
@@ -156,6 +175,7 @@ export class RelationTool {
     return {
       name: 'delete_relation',
       description: 'Delete a relation between Target Process entities by relation ID',
+      annotations: { readOnlyHint: false, destructiveHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -173,6 +193,7 @@ export class RelationTool {
     return {
       name: 'search_relations',
       description: 'Search for all relations (blocks, duplicates, relates to) for a specific entity',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -180,6 +201,10 @@ export class RelationTool {
             type: 'number',
             description: 'ID of the entity to find relations for',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['entityId'],
       },
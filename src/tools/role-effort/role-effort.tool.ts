@@ -1,11 +1,15 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+import { referenceProperty, referenceSchema } from '../reference.js';
 
 export const createRoleEffortSchema = z.object({
   entityId: z.number().describe('ID of the entity (UserStory, Bug, Task, etc.)'),
-  roleId: z.number().describe('ID of the role'),
+  roleId: referenceSchema.describe('ID or name of the role'),
   effort: z.number().optional().describe('Initial effort estimate in hours'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export const updateRoleEffortSchema = z.object({
@@ -13,6 +17,7 @@ export const updateRoleEffortSchema = z.object({
   effort: z.number().optional().describe('Total effort estimate in hours'),
   effortCompleted: z.number().optional().describe('Completed effort in hours'),
   effortToDo: z.number().optional().describe('Remaining effort in hours'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export const deleteRoleEffortSchema = z.object({
@@ -21,6 +26,7 @@ export const deleteRoleEffortSchema = z.object({
 
 export const searchRoleEffortsSchema = z.object({
   entityId: z.number().describe('ID of the entity to find role efforts for'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export class RoleEffortTool {
@@ -28,7 +34,7 @@ export class RoleEffortTool {
 
   async executeCreate(args: unknown) {
     try {
-      const { entityId, roleId, effort } = createRoleEffortSchema.parse(args);
+      const { entityId, roleId, effort, raw } = createRoleEffortSchema.parse(args);
 
       const requestData: {
         Assignable: { Id: number };
@@ -36,7 +42,7 @@ export class RoleEffortTool {
         Effort?: number;
       } = {
         Assignable: { Id: entityId },
-        Role: { Id: roleId },
+        Role: { Id: await this.service.resolveReference('Role', roleId) },
       };
 
       if (effort !== undefined) {
@@ -49,7 +55,7 @@ export class RoleEffortTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -61,6 +67,10 @@ export class RoleEffortTool {
         );
       }
 
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Create role effort failed: ${error instanceof Error ? error.message : String(error)}`
@@ -70,7 +80,7 @@ export class RoleEffortTool {
 
   async executeUpdate(args: unknown) {
     try {
-      const { roleEffortId, effort, effortCompleted, effortToDo } = updateRoleEffortSchema.parse(args);
+      const { roleEffortId, effort, effortCompleted, effortToDo, raw } = updateRoleEffortSchema.parse(args);
 
       const requestData: {
         Effort?: number;
@@ -94,7 +104,7 @@ export class RoleEffortTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -144,7 +154,7 @@ export class RoleEffortTool {
 
   async executeSearch(args: unknown) {
     try {
-      const { entityId } = searchRoleEffortsSchema.parse(args);
+      const { entityId, raw } = searchRoleEffortsSchema.parse(args);
 
       const result = await this.service.searchRoleEfforts(entityId);
 
@@ -152,7 +162,7 @@ export class RoleEffortTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -171,10 +181,22 @@ export class RoleEffortTool {
     }
   }
 
+  /**
+   * Register the tools with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new RoleEffortTool(service);
+    registry.register(RoleEffortTool.getCreateDefinition(), (args) => tool.executeCreate(args));
+    registry.register(RoleEffortTool.getUpdateDefinition(), (args) => tool.executeUpdate(args));
+    registry.register(RoleEffortTool.getDeleteDefinition(), (args) => tool.executeDelete(args));
+    registry.register(RoleEffortTool.getSearchDefinition(), (args) => tool.executeSearch(args));
+  }
+
   static getCreateDefinition() {
     return {
       name: 'create_role_effort',
       description: 'Create a role effort entry for a Target Process entity (effort by role)',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -182,14 +204,15 @@ export class RoleEffortTool {
             type: 'number',
             description: 'ID of the entity (UserStory, Bug, Task, etc.)',
           },
-          roleId: {
-            type: 'number',
-            description: 'ID of the role (e.g., Developer, QA, Designer)',
-          },
+          roleId: referenceProperty('ID or name of the role (e.g., Developer, QA, Designer)'),
           effort: {
             type: 'number',
             description: 'Initial effort estimate in hours (optional)',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['entityId', 'roleId'],
       },
@@ -200,6 +223,7 @@ export class RoleEffortTool {
     return {
       name: 'update_role_effort',
       description: 'Update a role effort entry (effort, effortCompleted, effortToDo)',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -219,6 +243,10 @@ export class RoleEffortTool {
             type: 'number',
             description: 'Remaining effort in hours',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['roleEffortId'],
       },
@@ -229,6 +257,7 @@ export class RoleEffortTool {
     return {
       name: 'delete_role_effort',
       description: 'Delete a role effort entry',
+      annotations: { readOnlyHint: false, destructiveHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -246,6 +275,7 @@ export class RoleEffortTool {
     return {
       name: 'get_role_efforts',
       description: 'Get all role effort entries for a Target Process entity',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -253,6 +283,10 @@ export class RoleEffortTool {
             type: 'number',
             description: 'ID of the entity to get role efforts for',
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['entityId'],
       },
@@ -1,7 +1,11 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { ToolRegistry } from '../tool.registry.js';
 import { searchPresets, applyPresetFilter } from './presets.js';
+import { includesForFields } from '../../api/query/aggregate.js';
+import { OUTPUT_FORMATS, formatOutput } from '../../output/output.formatter.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
 
 /**
  * Search tool for Target Process entities
@@ -34,6 +38,20 @@ import { searchPresets, applyPresetFilter } from './presets.js';
  *      where: searchPresets.open,
  *      include: ["Project", "AssignedUser"]
  *    })
+ *
+ * 6. Paging through results:
+ *    search_entities({ type: "Bug", take: 100 })
+ *    search_entities({ type: "Bug", take: 100, cursor: "<paging.nextCursor>" })
+ *
+ * 7. Fetching every page up to a cap:
+ *    search_entities({ type: "Bug", allPages: true, maxItems: 3000 })
+ *
+ * 8. Compact table of selected fields:
+ *    search_entities({
+ *      type: "UserStory",
+ *      fields: ["Id", "Name", "EntityState.Name", "AssignedUser.Email"],
+ *      format: "markdown-table"
+ *    })
  */
 export const searchToolSchema = z.object({
   type: z.enum([
@@ -47,8 +65,51 @@ export const searchToolSchema = z.object({
   include: z.array(z.string()).optional().describe('Related data to include (e.g., Project, Team, AssignedUser)'),
   take: z.number().min(1).max(1000).optional().describe('Number of items to return (default: 100)'),
   orderBy: z.array(z.string()).optional().describe('Fields to sort by (e.g., ["CreateDate desc"])'),
+  skip: z.number().int().min(0).optional().describe('Number of items to skip'),
+  cursor: z.string().optional().describe('nextCursor from a previous response to fetch the next page'),
+  allPages: z.boolean().optional().describe('Follow Next links and return all pages up to maxItems'),
+  maxItems: z.number().int().min(1).max(10000).optional().describe('Safety cap for allPages (default: 1000)'),
+  fields: z.array(z.string().min(1)).optional().describe('Dot paths to keep in each item (e.g., ["Id", "Name", "AssignedUser.Email"])'),
+  format: z.enum(OUTPUT_FORMATS).optional().describe('Output format (default: json)'),
+  maxResponseChars: z.number().int().min(1000).optional().describe('Character budget for this response (cannot exceed the server limit)'),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
+interface SearchCursor {
+  type: string;
+  where?: string;
+  skip: number;
+}
+
+/**
+ * Encode the position of the next page together with the query it belongs to
+ */
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, type: string, where?: string): number {
+  let cursor: SearchCursor;
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected an object');
+    }
+    cursor = parsed as SearchCursor;
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+
+  if (cursor.type !== type || (cursor.where || undefined) !== (where || undefined) || typeof cursor.skip !== 'number') {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Cursor does not belong to this query; repeat the same type and where as the request that returned it'
+    );
+  }
+
+  return cursor.skip;
+}
+
 export type SearchToolInput = z.infer<typeof searchToolSchema>;
 
 /**
@@ -59,23 +120,51 @@ export class SearchTool {
 
   async execute(args: unknown) {
     try {
-      const { type, where, include, take, orderBy } = searchToolSchema.parse(args);
-
-      const results = await this.service.searchEntities(
-        type,
-        where,
-        include,
-        take,
-        orderBy
-      );
+      const { type, where, include: requestedInclude, take, orderBy, skip, cursor, allPages, maxItems, fields, format, maxResponseChars, raw } = searchToolSchema.parse(args);
+
+      // Without an explicit include, fetch only what the projected fields need
+      const include = requestedInclude ?? (fields?.length ? includesForFields(fields) : undefined);
+
+      const startSkip = cursor ? decodeCursor(cursor, type, where) : (skip ?? 0);
 
+      const page = allPages
+        ? await this.service.searchAllEntities(
+          type,
+          where,
+          include,
+          orderBy,
+          maxItems,
+          startSkip
+        )
+        : await this.service.searchEntitiesPage(
+          type,
+          where,
+          include,
+          take,
+          orderBy,
+          startSkip
+        );
+
+      const paging = {
+        skip: page.skip,
+        returned: page.items.length,
+        hasMore: page.hasMore,
+        nextCursor: page.nextSkip !== undefined
+          ? encodeCursor({ type, where, skip: page.nextSkip })
+          : undefined,
+        totalCount: page.totalCount,
+      };
+
+      const items = (raw ? page.items : this.service.normalize(page.items)) as unknown[];
+
+      // Items beyond the response budget are kept for fetch_more
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(results, null, 2),
-          },
-        ],
+        content: this.service.fitItems(
+          items,
+          (head, meta) => formatOutput(head, format, { fields, meta }),
+          { paging },
+          maxResponseChars
+        ),
       };
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -85,6 +174,10 @@ export class SearchTool {
         );
       }
 
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Search failed: ${error instanceof Error ? error.message : String(error)}`
@@ -92,13 +185,22 @@ export class SearchTool {
     }
   }
 
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new SearchTool(service);
+    registry.register(SearchTool.getDefinition(), (args) => tool.execute(args));
+  }
+
   /**
    * Get tool definition for MCP
    */
   static getDefinition() {
     return {
       name: 'search_entities',
-      description: 'Search Target Process entities with powerful filtering capabilities and preset filters for common scenarios',
+      description: 'Search Target Process entities with powerful filtering capabilities and preset filters for common scenarios. Returns { items, paging: { hasMore, nextCursor, totalCount } }; use fields and format for compact tables.',
+      annotations: { readOnlyHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -122,6 +224,8 @@ export class SearchTool {
 - Priority filters: searchPresets.highPriority
 - Combined filters: searchPresets.myOpenTasks, .highPriorityUnassigned
 
+Supports and/or/not, parentheses, in (...), is null / is not null, contains, date macros like @Today and custom fields (CustomField.Name).
+
 Example: searchPresets.open or "EntityState.Name eq 'Open'"`,
           },
           include: {
@@ -144,6 +248,46 @@ Example: searchPresets.open or "EntityState.Name eq 'Open'"`,
             },
             description: 'Sort order for results (e.g., ["CreateDate desc", "Name asc"])',
           },
+          skip: {
+            type: 'number',
+            description: 'Number of items to skip before returning results',
+            minimum: 0,
+          },
+          cursor: {
+            type: 'string',
+            description: 'paging.nextCursor from a previous response with the same type and where, to fetch the next page',
+          },
+          allPages: {
+            type: 'boolean',
+            description: 'Follow Next links internally and return all pages up to maxItems',
+          },
+          maxItems: {
+            type: 'number',
+            description: 'Maximum number of items to return with allPages (default: 1000)',
+            minimum: 1,
+            maximum: 10000,
+          },
+          fields: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Dot paths to keep in each item, e.g. ["Id", "Name", "EntityState.Name", "AssignedUser.Email"]. Related entities are included automatically when include is omitted',
+          },
+          format: {
+            type: 'string',
+            enum: OUTPUT_FORMATS,
+            description: 'Output format: json (default), compact-json, markdown-table, csv or ndjson. Table and line formats return paging as a separate block',
+          },
+          maxResponseChars: {
+            type: 'number',
+            description: 'Character budget for this response. Items that do not fit are returned by fetch_more with truncation.continuation',
+            minimum: 1000,
+          },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['type'],
       },
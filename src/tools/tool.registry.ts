@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { TPService } from '../api/client/tp.service.js';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+  };
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: readonly string[];
+  };
+}
+
+export interface ToolResult {
+  content: { type: string; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export type ToolHandler = (args: unknown) => Promise<ToolResult>;
+
+export interface RegisteredTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+/**
+ * A tool module registers one or more tools with the registry.
+ * Built-in tools implement this as a static `register` method; extension
+ * modules loaded from a directory export a `register` function.
+ */
+export interface ToolModule {
+  register(registry: ToolRegistry, service: TPService): void | Promise<void>;
+}
+
+/**
+ * Registry of MCP tools. The server derives its tool listing and
+ * dispatch from the registered entries.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  register(definition: ToolDefinition, handler: ToolHandler): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool '${definition.name}' is already registered`);
+    }
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  async registerModule(module: ToolModule, service: TPService): Promise<void> {
+    await module.register(this, service);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(tool => tool.definition);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Load extension tool modules (.js/.mjs) from a directory. Each module must
+   * export a `register(registry, service)` function, either named or on its
+   * default export.
+   */
+  async loadFromDirectory(directory: string, service: TPService): Promise<string[]> {
+    const resolved = path.resolve(directory);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Tool modules directory not found: ${resolved}`);
+    }
+
+    const files = fs.readdirSync(resolved)
+      .filter(file => file.endsWith('.js') || file.endsWith('.mjs'))
+      .sort();
+
+    const loaded: string[] = [];
+    for (const file of files) {
+      const modulePath = path.join(resolved, file);
+      const imported = await import(pathToFileURL(modulePath).href);
+      const module: Partial<ToolModule> = typeof imported.register === 'function'
+        ? imported
+        : imported.default;
+
+      if (!module || typeof module.register !== 'function') {
+        throw new Error(`Tool module ${modulePath} does not export a register(registry, service) function`);
+      }
+
+      const before = new Set(this.names());
+      await this.registerModule(module as ToolModule, service);
+      loaded.push(...this.names().filter(name => !before.has(name)));
+    }
+
+    return loaded;
+  }
+}
@@ -1,6 +1,12 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { buildCustomFields } from '../../api/client/tp.customfields.js';
+import { ReferenceKind, ReferenceScope } from '../../api/client/tp.resolver.js';
+import { RAW_DESCRIPTION } from '../../output/response.normalizer.js';
+import { ToolRegistry } from '../tool.registry.js';
+import { ReferenceObject, referenceObjectProperty, referenceObjectSchema, referenceOf } from '../reference.js';
+import { customFieldsProperty, customFieldsSchema } from '../entity/custom-fields.js';
 
 const entityReferenceSchema = z.object({
   id: z.number(),
@@ -11,6 +17,11 @@ const nullableEntityReferenceSchema = z.union([
   z.null(),
 ]);
 
+const nullableReferenceObjectSchema = z.union([
+  referenceObjectSchema,
+  z.null(),
+]);
+
 // Input schema for update entity tool
 export const updateEntitySchema = z.object({
   type: z.enum([
@@ -24,22 +35,25 @@ export const updateEntitySchema = z.object({
   fields: z.object({
     name: z.string().optional(),
     description: z.string().optional(),
-    status: entityReferenceSchema.optional(),
-    assignedUser: entityReferenceSchema.optional(),
+    status: referenceObjectSchema.optional(),
+    assignedUser: referenceObjectSchema.optional(),
+    priority: referenceObjectSchema.optional(),
     userStory: nullableEntityReferenceSchema.optional(),
     feature: nullableEntityReferenceSchema.optional(),
     epic: nullableEntityReferenceSchema.optional(),
     bug: nullableEntityReferenceSchema.optional(),
     task: nullableEntityReferenceSchema.optional(),
-    project: entityReferenceSchema.optional(),
-    team: entityReferenceSchema.optional(),
-    release: nullableEntityReferenceSchema.optional(),
-    iteration: nullableEntityReferenceSchema.optional(),
-    teamIteration: nullableEntityReferenceSchema.optional(),
+    project: referenceObjectSchema.optional(),
+    team: referenceObjectSchema.optional(),
+    release: nullableReferenceObjectSchema.optional(),
+    iteration: nullableReferenceObjectSchema.optional(),
+    teamIteration: nullableReferenceObjectSchema.optional(),
     effort: z.number().optional(),
     effortCompleted: z.number().optional(),
     effortToDo: z.number().optional(),
+    customFields: customFieldsSchema.optional(),
   }),
+  raw: z.boolean().optional().describe(RAW_DESCRIPTION),
 });
 
 export type UpdateEntityInput = z.infer<typeof updateEntitySchema>;
@@ -50,11 +64,18 @@ export type UpdateEntityInput = z.infer<typeof updateEntitySchema>;
 export class UpdateEntityTool {
   constructor(private service: TPService) {}
 
-  private mapEntityReference(ref: { id: number } | undefined): { Id: number } | undefined {
-    if (ref === undefined) {
-      return undefined;
+  /**
+   * Resolve an { id } or { name } field to an entity reference; null removes the relation
+   */
+  private async resolveReference<R extends ReferenceObject | null | undefined>(
+    kind: ReferenceKind,
+    ref: R,
+    scope?: ReferenceScope
+  ): Promise<{ Id: number } | Extract<R, null | undefined>> {
+    if (ref === null || ref === undefined) {
+      return ref as Extract<R, null | undefined>;
     }
-    return { Id: ref.id };
+    return { Id: await this.service.resolveReference(kind, referenceOf(ref), scope) };
   }
 
   private mapNullableEntityReference(ref: { id: number } | null | undefined): { Id: number } | null | undefined {
@@ -69,26 +90,40 @@ export class UpdateEntityTool {
 
   async execute(args: unknown) {
     try {
-      const { type, id, fields } = updateEntitySchema.parse(args);
+      const { type, id, fields, raw } = updateEntitySchema.parse(args);
+
+      let CustomFields;
+      if (fields.customFields) {
+        const processId = await this.service.getProcessId(type, id);
+        const definitions = await this.service.getCustomFieldDefinitions(type, processId);
+        CustomFields = buildCustomFields(type, definitions, fields.customFields);
+      }
+
+      // State names repeat across processes and entity types, so look them up in the entity's workflow
+      const stateScope = fields.status && 'name' in fields.status
+        ? { entityType: type, processId: await this.service.getProcessId(type, id) }
+        : undefined;
 
       const apiRequest = {
         Name: fields.name,
         Description: fields.description,
-        EntityState: this.mapEntityReference(fields.status),
-        AssignedUser: this.mapEntityReference(fields.assignedUser),
+        EntityState: await this.resolveReference('EntityState', fields.status, stateScope),
+        AssignedUser: await this.resolveReference('User', fields.assignedUser),
+        Priority: await this.resolveReference('Priority', fields.priority, { entityType: type }),
         UserStory: this.mapNullableEntityReference(fields.userStory),
         Feature: this.mapNullableEntityReference(fields.feature),
         Epic: this.mapNullableEntityReference(fields.epic),
         Bug: this.mapNullableEntityReference(fields.bug),
         Task: this.mapNullableEntityReference(fields.task),
-        Project: this.mapEntityReference(fields.project),
-        Team: this.mapEntityReference(fields.team),
-        Release: this.mapNullableEntityReference(fields.release),
-        Iteration: this.mapNullableEntityReference(fields.iteration),
-        TeamIteration: this.mapNullableEntityReference(fields.teamIteration),
+        Project: await this.resolveReference('Project', fields.project),
+        Team: await this.resolveReference('Team', fields.team),
+        Release: await this.resolveReference('Release', fields.release),
+        Iteration: await this.resolveReference('Iteration', fields.iteration),
+        TeamIteration: await this.resolveReference('TeamIteration', fields.teamIteration),
         Effort: fields.effort,
         EffortCompleted: fields.effortCompleted,
         EffortToDo: fields.effortToDo,
+        CustomFields,
       };
 
       const result = await this.service.updateEntity(
@@ -101,7 +136,7 @@ export class UpdateEntityTool {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(raw ? result : this.service.normalize(result), null, 2),
           },
         ],
       };
@@ -113,6 +148,10 @@ export class UpdateEntityTool {
         );
       }
 
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw error;
+      }
+
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Update entity failed: ${error instanceof Error ? error.message : String(error)}`
@@ -120,6 +159,14 @@ export class UpdateEntityTool {
     }
   }
 
+  /**
+   * Register the tool with the server's tool registry
+   */
+  static register(registry: ToolRegistry, service: TPService) {
+    const tool = new UpdateEntityTool(service);
+    registry.register(UpdateEntityTool.getDefinition(), (args) => tool.execute(args));
+  }
+
   /**
    * Get tool definition for MCP
    */
@@ -143,9 +190,18 @@ export class UpdateEntityTool {
       description: 'Entity reference (use null to remove relation)',
     };
 
+    const nullableNamedRefSchema = (description: string) => ({
+      oneOf: [
+        referenceObjectProperty(description),
+        { type: 'null' },
+      ],
+      description: `${description} (use null to remove relation)`,
+    });
+
     return {
       name: 'update_entity',
-      description: 'Update an existing Target Process entity. Supports updating relations like userStory, feature, epic, etc. Use null to remove a relation.',
+      description: 'Update an existing Target Process entity. Supports updating relations like userStory, feature, epic, etc. Use null to remove a relation. Custom field values go in fields.customFields.',
+      annotations: { readOnlyHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -175,14 +231,9 @@ export class UpdateEntityTool {
                 type: 'string',
                 description: 'New description for the entity',
               },
-              status: {
-                ...entityRefSchema,
-                description: 'Status ID to set',
-              },
-              assignedUser: {
-                ...entityRefSchema,
-                description: 'User ID to assign',
-              },
+              status: referenceObjectProperty('Status to set, by ID or by state name in the entity\'s workflow (to check the transition, use transition_entity)'),
+              assignedUser: referenceObjectProperty('User to assign, by ID or by name', 'Email, login or full name'),
+              priority: referenceObjectProperty('Priority, by ID or by name (e.g. High)'),
               userStory: {
                 ...nullableEntityRefSchema,
                 description: 'Link to UserStory (for Bug, Task)',
@@ -203,26 +254,11 @@ export class UpdateEntityTool {
                 ...nullableEntityRefSchema,
                 description: 'Link to Task',
               },
-              project: {
-                ...entityRefSchema,
-                description: 'Project ID to move entity to',
-              },
-              team: {
-                ...entityRefSchema,
-                description: 'Team ID to assign',
-              },
-              release: {
-                ...nullableEntityRefSchema,
-                description: 'Release ID to assign',
-              },
-              iteration: {
-                ...nullableEntityRefSchema,
-                description: 'Iteration ID to assign',
-              },
-              teamIteration: {
-                ...nullableEntityRefSchema,
-                description: 'Team Iteration ID to assign',
-              },
+              project: referenceObjectProperty('Project to move entity to, by ID or by name', 'Name or abbreviation'),
+              team: referenceObjectProperty('Team to assign, by ID or by name', 'Name or abbreviation'),
+              release: nullableNamedRefSchema('Release to assign, by ID or by name'),
+              iteration: nullableNamedRefSchema('Iteration to assign, by ID or by name'),
+              teamIteration: nullableNamedRefSchema('Team Iteration to assign, by ID or by name'),
               effort: {
                 type: 'number',
                 description: 'Total effort estimate in hours',
@@ -235,8 +271,13 @@ export class UpdateEntityTool {
                 type: 'number',
                 description: 'Remaining effort in hours',
               },
+              customFields: customFieldsProperty,
             },
           },
+          raw: {
+            type: 'boolean',
+            description: RAW_DESCRIPTION,
+          },
         },
         required: ['type', 'id', 'fields'],
       },
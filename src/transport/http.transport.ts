@@ -0,0 +1,335 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { setInterval, clearInterval } from 'node:timers';
+import { URL } from 'node:url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportType = 'stdio' | 'http';
+
+export interface TransportConfig {
+  type: TransportType;
+  host?: string;
+  port?: number;
+  /** Path of the streamable HTTP endpoint (default: /mcp) */
+  path?: string;
+  /** Maximum accepted request body size in bytes (default: 4 MB) */
+  maxBodyBytes?: number;
+  /** Streamable sessions without requests for this long are closed (default: 1800) */
+  sessionIdleSeconds?: number;
+  /** Bearer token clients must send in the Authorization header; /health stays open without details */
+  authToken?: string;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  kind: 'streamable' | 'sse';
+  createdAt: number;
+  lastSeenAt: number;
+  /** Requests still being answered, including long-lived GET streams */
+  openRequests: number;
+}
+
+/**
+ * A request body over the size limit, answered with 413
+ */
+class PayloadTooLargeError extends Error {}
+
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/**
+ * HTTP host for the MCP server.
+ *
+ * Serves the streamable HTTP transport on `path` (POST/GET/DELETE), the legacy
+ * SSE transport on `/sse` + `/messages`, and a health check on `/health`.
+ * Session counts and the optional `diagnostics` callback's output are only
+ * added to the health check for authorized callers.
+ * Every session gets its own MCP `Server` built by `createServer`, while the
+ * factory is expected to share the TP service and tools between them.
+ */
+export class HttpTransportServer {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly path: string;
+  private readonly maxBodyBytes: number;
+  private readonly sessionIdleMs: number;
+  private readonly authToken?: Buffer;
+  private readonly sessions = new Map<string, HttpSession>();
+  private readonly startedAt = Date.now();
+  private httpServer: http.Server | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly createServer: () => Server,
+    config: TransportConfig,
+    private readonly diagnostics?: () => unknown
+  ) {
+    this.host = config.host || '127.0.0.1';
+    this.port = config.port ?? 3000;
+    this.path = config.path || '/mcp';
+    this.maxBodyBytes = config.maxBodyBytes ?? 4 * 1024 * 1024;
+    this.sessionIdleMs = (config.sessionIdleSeconds ?? 1800) * 1000;
+    this.authToken = config.authToken ? Buffer.from(config.authToken) : undefined;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[HTTP Transport Error]', error);
+        if (res.headersSent) {
+          res.end();
+        } else if (error instanceof PayloadTooLargeError) {
+          this.sendJsonRpcError(res, 413, -32600, error.message);
+        } else if (error instanceof SyntaxError) {
+          this.sendJsonRpcError(res, 400, -32700, `Parse error: ${error.message}`);
+        } else {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.port, this.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    if (!this.authToken && !LOOPBACK_HOSTS.has(this.host)) {
+      console.error(`Warning: HTTP transport listens on ${this.host} without an auth token; anyone who can reach it acts with the Target Process token. Set TP_HTTP_AUTH_TOKEN.`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.transport.close();
+        await session.server.close();
+      } catch (error) {
+        console.error(`Error closing session ${sessionId}:`, error);
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+      this.httpServer = null;
+    }
+  }
+
+  get address(): string {
+    // Port 0 binds a free port; report the one actually in use
+    const port = (this.httpServer?.address() as AddressInfo | null)?.port ?? this.port;
+    return `http://${this.host}:${port}`;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      return this.handleHealth(res, this.isAuthorized(req));
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+      return;
+    }
+
+    if (url.pathname === this.path) {
+      return this.handleStreamable(req, res);
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      return this.handleSseConnect(res);
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: `Not found: ${req.method} ${url.pathname}` }));
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    const token = Buffer.from(match?.[1] ?? '');
+    return token.length === this.authToken.length && timingSafeEqual(token, this.authToken);
+  }
+
+  /**
+   * Close streamable sessions the client abandoned without a DELETE; a session
+   * with an open stream is still in use however long ago it started
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.kind !== 'streamable' || session.openRequests > 0 || session.lastSeenAt > cutoff) {
+        continue;
+      }
+
+      this.closeSession(sessionId, session);
+    }
+  }
+
+  private closeSession(sessionId: string, session: HttpSession): void {
+    this.sessions.delete(sessionId);
+    Promise.all([session.transport.close(), session.server.close()]).catch((error) => {
+      console.error(`Error closing session ${sessionId}:`, error);
+    });
+  }
+
+  /**
+   * Status and uptime for everyone; sessions and diagnostics only for authorized callers
+   */
+  private handleHealth(res: ServerResponse, detailed: boolean): void {
+    const sessions = [...this.sessions.values()];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      status: 'ok',
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      ...(detailed ? {
+        sessions: {
+          streamable: sessions.filter(s => s.kind === 'streamable').length,
+          sse: sessions.filter(s => s.kind === 'sse').length,
+        },
+        ...(this.diagnostics ? { diagnostics: this.diagnostics() } : {}),
+      } : {}),
+    }));
+  }
+
+  /**
+   * Streamable HTTP: a POST without a session id must be an initialize
+   * request and opens a new session; everything else is routed by the
+   * `mcp-session-id` header.
+   */
+  private async handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable') {
+        return this.sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      }
+      session.lastSeenAt = Date.now();
+      session.openRequests++;
+      res.on('close', () => {
+        session.openRequests--;
+        session.lastSeenAt = Date.now();
+      });
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return this.sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, kind: 'streamable', createdAt: Date.now(), lastSeenAt: Date.now(), openRequests: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const session: HttpSession = { transport, server, kind: 'sse', createdAt: Date.now(), lastSeenAt: Date.now(), openRequests: 1 };
+    this.sessions.set(transport.sessionId, session);
+
+    // The SSE stream is the session: once it closes the session's server goes too
+    res.on('close', () => {
+      if (this.sessions.get(transport.sessionId) === session) {
+        this.closeSession(transport.sessionId, session);
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end(`Session not found: ${sessionId}`);
+      return;
+    }
+
+    const body = await this.readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const tooLarge = new PayloadTooLargeError(`Request body exceeds ${this.maxBodyBytes} bytes`);
+    if (Number(req.headers['content-length']) > this.maxBodyBytes) {
+      throw tooLarge;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Keep draining past the limit so the socket stays usable for the 413 response
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size <= this.maxBodyBytes) {
+        chunks.push(chunk as Buffer);
+      }
+    }
+
+    if (size > this.maxBodyBytes) {
+      throw tooLarge;
+    }
+    if (size === 0) {
+      return undefined;
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+}